@@ -36,8 +36,8 @@ export const wolverineConfig: AgentConfig = {
       'github',
     ],
 
-    // MCP servers (if any configured)
-    mcpServers: [],
+    // MCP servers by name, e.g. { git: { command: 'git-mcp', args: ['--repo', '.'] } }
+    mcpServers: {},
 
     // Enable agent teams (experimental)
     agentTeams: true,
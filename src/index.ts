@@ -11,20 +11,104 @@
 
 // Main runtime
 export { ClaudeCodeRuntime } from './runtime/ClaudeCodeRuntime';
+export { ClaudeCodeRuntimeManager } from './runtime/ClaudeCodeRuntimeManager';
+export { ClaudeCodeSpawnAdapter, toSpawnOptions } from './runtime/ClaudeCodeSpawnAdapter';
 export { ClaudeCodeProcessSpawner } from './runtime/ClaudeCodeProcessSpawner';
-export { ClaudeCodeCommunicator, DefaultOutputParser, JsonOutputParser } from './runtime/ClaudeCodeCommunicator';
+export {
+  PtyClaudeCodeProcess,
+  StreamJsonClaudeCodeProcess,
+  createClaudeCodeProcess,
+} from './runtime/ClaudeCodeProcess';
+export { ClaudeSessionLocator } from './runtime/ClaudeSessionLocator';
+export { ClaudeCodeSessionStore } from './runtime/ClaudeCodeSessionStore';
+export { ClaudeCodeTranscriptStore } from './runtime/ClaudeCodeTranscriptStore';
+export { ClaudeCodeSandboxManager } from './runtime/ClaudeCodeSandboxManager';
+export { ClaudeCodeSessionScheduler } from './runtime/ClaudeCodeSessionScheduler';
+export { RestartPolicy } from './runtime/RestartPolicy';
+export { ClaudeCodeWatchdog } from './runtime/ClaudeCodeWatchdog';
+export { ClaudeCodeProcessReaper } from './runtime/ClaudeCodeProcessReaper';
+export { ClaudeBinaryResolver } from './runtime/ClaudeBinaryResolver';
+export { ClaudeCodePermissionBroker } from './runtime/ClaudeCodePermissionBroker';
+export { StructuredOutputError, extractJson } from './runtime/structuredOutput';
+export { ClaudeCodeEventStream } from './runtime/ClaudeCodeEventStream';
+export { ClaudeCodeUsageTracker } from './runtime/ClaudeCodeUsageTracker';
+export { ClaudeCodeToolAuditLog } from './runtime/ClaudeCodeToolAuditLog';
+export type { ClaudeCodeStreamEvent } from './runtime/ClaudeCodeEventStream';
+export {
+  ClaudeCodeCommunicator,
+  DefaultOutputParser,
+  JsonOutputParser,
+  defaultOutputParserFactory,
+} from './runtime/ClaudeCodeCommunicator';
+export { TuiScreenParser } from './runtime/TuiScreenParser';
+export type {
+  OutputParser,
+  OutputParserFactory,
+  ParsedOutput,
+  ParsedTextOutput,
+  ParsedScreenOutput,
+  TuiScreenState,
+  ParsedInitOutput,
+  ParsedAssistantTextOutput,
+  ParsedToolUseOutput,
+  ParsedToolResultOutput,
+  ParsedResultOutput,
+  ParsedUsageOutput,
+} from './runtime/ClaudeCodeCommunicator';
+export type { ClaudeCodeProcess, ClaudeCodeProcessOptions, ClaudeCodeProcessExit } from './runtime/ClaudeCodeProcess';
 
 // Type definitions
 export type {
   RuntimeType,
   ClaudeCodePermissionMode,
   ClaudeCodeModel,
+  ClaudeCodeBackend,
+  ClaudeCodePersonalityConfig,
+  ClaudeCodeMcpServer,
+  ClaudeCodeStdioMcpServer,
+  ClaudeCodeHttpMcpServer,
+  ClaudeCodeMcpServerStatus,
+  ClaudeCodeUsage,
+  ClaudeCodeUsageTotals,
+  ClaudeCodeUsageEntry,
+  ClaudeCodeUsageQuery,
+  ClaudeCodeUsageReport,
+  ClaudeCodeBudget,
+  ClaudeCodeBudgetsConfig,
+  ClaudeCodeCapabilities,
+  ClaudeCodePermissionRule,
+  ClaudeCodePermissionsConfig,
+  ClaudeCodePermissionRequest,
+  ClaudeCodePermissionDecision,
+  ClaudeCodePermissionAuditEntry,
+  ClaudeCodePermissionApprover,
+  ClaudeCodeToolAuditEntry,
+  ClaudeCodeToolAuditQuery,
+  ClaudeCodeRestartPolicy,
+  ClaudeCodeWatchdogConfig,
   ClaudeCodeConfig,
   AgentConfig,
   ClaudeCodeSpawnOptions,
+  ClaudeCodeJsonSchema,
+  ClaudeCodeStructuredTaskOptions,
+  ClaudeCodeStreamOptions,
+  ClaudeCodeAskOptions,
   ClaudeCodeSession,
+  ClaudeCodeSessionState,
+  ClaudeCodeSessionRecord,
+  ClaudeCodeCrash,
+  ClaudeCodeInputKind,
+  ClaudeCodeTranscriptEntry,
+  ClaudeCodeIsolationMode,
+  ClaudeCodeSandbox,
+  ClaudeCodeSandboxDiff,
+  ClaudeCodeSandboxResolution,
   ClaudeCodeEvent,
   ClaudeCodeRuntimeOptions,
+  ClaudeCodeRuntimeManagerOptions,
+  ClaudeCodeSessionsSpawnRequest,
+  ClaudeCodeSessionsSpawnResponse,
+  ClaudeCodeSessionsSpawnResult,
 } from './types/runtime';
 
 // Configuration
@@ -0,0 +1,240 @@
+/**
+ * Claude Binary Resolver
+ * Finds the Claude Code CLI (config, $CLAUDE_BINARY, PATH, well-known install
+ * locations), probes what it supports from --version/--help, and checks it
+ * against what a session needs
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ClaudeCodeCapabilities } from '../types/runtime';
+
+const execFileAsync = promisify(execFile);
+
+export interface ClaudeBinaryResolverOptions {
+  /** Explicitly configured binary (ClaudeCodeConfig.binaryPath) */
+  binaryPath?: string;
+
+  /** Oldest acceptable version (ClaudeCodeConfig.minVersion) */
+  minVersion?: string;
+
+  /** Environment to read CLAUDE_BINARY and PATH from (defaults to process.env) */
+  env?: NodeJS.ProcessEnv;
+
+  /** Install locations tried after PATH */
+  searchPaths?: string[];
+
+  /** Time allowed for each --version/--help call */
+  probeTimeoutMs?: number;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+/**
+ * What a session needs from the binary
+ */
+export interface ClaudeBinaryRequirements {
+  /** Flags the session passes, mapped to why (e.g. '--mcp-config' -> 'mcpServers') */
+  flags?: Record<string, string>;
+
+  /** Why agent teams are needed, if they are */
+  agentTeams?: string;
+}
+
+/** What --help shows on builds that have agent teams: the teammate flag or the switch's name */
+const AGENT_TEAMS_HELP = /--teammate-mode|CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS|agent teams?\b/i;
+
+const DEFAULT_PROBE_TIMEOUT_MS = 10000;
+
+/**
+ * Where the official installers put the binary
+ */
+function defaultSearchPaths(): string[] {
+  const home = os.homedir();
+  return [
+    path.join(home, '.claude', 'local', 'claude'),
+    path.join(home, '.local', 'bin', 'claude'),
+    '/opt/homebrew/bin/claude',
+    '/usr/local/bin/claude',
+    path.join(home, '.npm-global', 'bin', 'claude'),
+    '/usr/bin/claude',
+  ];
+}
+
+/**
+ * Compare two dotted version numbers; negative if a < b
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const right = b.split('.').map((part) => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Resolves and probes the Claude Code binary for an agent
+ */
+export class ClaudeBinaryResolver {
+  private binaryPath?: string;
+  private minVersion?: string;
+  private env: NodeJS.ProcessEnv;
+  private searchPaths: string[];
+  private probeTimeoutMs: number;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+  private probes: Map<string, { mtimeMs: number; capabilities: Promise<ClaudeCodeCapabilities> }>;
+
+  constructor(options: ClaudeBinaryResolverOptions = {}) {
+    this.binaryPath = options.binaryPath;
+    this.minVersion = options.minVersion;
+    this.env = options.env || process.env;
+    this.searchPaths = options.searchPaths || defaultSearchPaths();
+    this.probeTimeoutMs = options.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+    this.logger = options.logger || this.defaultLogger;
+    this.probes = new Map();
+  }
+
+  /**
+   * Path of the binary to run. Throws, listing what was tried, if there is none.
+   */
+  resolve(): string {
+    // An explicit choice never silently falls back to another install
+    if (this.binaryPath) {
+      if (!isExecutable(this.binaryPath)) {
+        throw new Error(`Claude Code binary not found or not executable: ${this.binaryPath} (claudeCode.binaryPath)`);
+      }
+      return this.binaryPath;
+    }
+
+    const fromEnv = this.env.CLAUDE_BINARY;
+    if (fromEnv) {
+      if (!isExecutable(fromEnv)) {
+        throw new Error(`Claude Code binary not found or not executable: ${fromEnv} (CLAUDE_BINARY)`);
+      }
+      return fromEnv;
+    }
+
+    const pathDirs = (this.env.PATH || '').split(path.delimiter).filter(Boolean);
+    const candidates = [...pathDirs.map((dir) => path.join(dir, 'claude')), ...this.searchPaths];
+
+    const found = candidates.find((candidate) => isExecutable(candidate));
+    if (!found) {
+      throw new Error(
+        'Claude Code binary not found. Set claudeCode.binaryPath or CLAUDE_BINARY, or install it on the PATH. ' +
+        `Tried: PATH, ${this.searchPaths.join(', ')}`
+      );
+    }
+    return found;
+  }
+
+  /**
+   * Probe a binary's version and flags. Results are cached until the binary changes.
+   */
+  probe(binaryPath: string = this.resolve()): Promise<ClaudeCodeCapabilities> {
+    const mtimeMs = fs.statSync(binaryPath).mtimeMs;
+    const cached = this.probes.get(binaryPath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.capabilities;
+    }
+
+    this.logger('debug', 'Probing Claude Code binary', { binaryPath });
+    const capabilities = this.runProbe(binaryPath);
+    this.probes.set(binaryPath, { mtimeMs, capabilities });
+
+    // Don't cache failures; the next call tries again
+    capabilities.catch(() => this.probes.delete(binaryPath));
+    return capabilities;
+  }
+
+  /**
+   * Resolve and probe the binary, and make sure it meets the version
+   * constraint and the given flag requirements. Throws an explanatory error
+   * otherwise. Agent teams are optional: agentTeams says whether to enable them.
+   */
+  async ensure(requirements: ClaudeBinaryRequirements = {}): Promise<{
+    binaryPath: string;
+    capabilities: ClaudeCodeCapabilities;
+    agentTeams: boolean;
+  }> {
+    const binaryPath = this.resolve();
+    const capabilities = await this.probe(binaryPath);
+    const version = capabilities.version || 'unknown version';
+
+    if (this.minVersion && (!capabilities.version || compareVersions(capabilities.version, this.minVersion) < 0)) {
+      throw new Error(
+        `Claude Code at ${binaryPath} is ${version}, but claudeCode.minVersion requires ${this.minVersion} or newer`
+      );
+    }
+
+    // Without a usable --help there is nothing to check flags against
+    const required = Object.entries(requirements.flags || {});
+    if (capabilities.flags.length === 0 && required.length > 0) {
+      this.logger('warn', 'Claude Code --help listed no flags; skipping capability checks', { binaryPath, version });
+    }
+    const missing = capabilities.flags.length > 0
+      ? required.filter(([flag]) => !capabilities.flags.includes(flag))
+      : [];
+
+    if (missing.length > 0) {
+      const details = missing.map(([flag, reason]) => `${flag} (needed for ${reason})`).join(', ');
+      throw new Error(`Claude Code at ${binaryPath} (${version}) does not support ${details}. Upgrade Claude Code.`);
+    }
+
+    // A session still runs without agent teams, so a binary that doesn't show them only costs the team
+    let agentTeams = !!requirements.agentTeams;
+    if (agentTeams && !capabilities.agentTeams && capabilities.flags.length > 0) {
+      this.logger('warn', 'Claude Code --help does not mention agent teams; running without them', {
+        binaryPath,
+        version,
+        neededFor: requirements.agentTeams,
+      });
+      agentTeams = false;
+    }
+
+    return { binaryPath, capabilities, agentTeams };
+  }
+
+  // Private methods
+
+  private async runProbe(binaryPath: string): Promise<ClaudeCodeCapabilities> {
+    const run = (args: string[]) =>
+      execFileAsync(binaryPath, args, { timeout: this.probeTimeoutMs, env: this.env, encoding: 'utf-8' });
+
+    const { stdout: versionOutput } = await run(['--version']);
+    const version = versionOutput.match(/\d+\.\d+\.\d+/)?.[0];
+
+    // Older builds may not support --help cleanly; treat that as "flags unknown"
+    const help = await run(['--help']).then(({ stdout }) => stdout, () => '');
+    const flags = Array.from(new Set(help.match(/--[a-zA-Z][\w-]*/g) || [])).sort();
+
+    return {
+      version,
+      flags,
+      streamJsonInput: flags.includes('--input-format') && help.includes('stream-json'),
+      mcpConfig: flags.includes('--mcp-config'),
+      agentTeams: AGENT_TEAMS_HELP.test(help),
+    };
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
+
+function isExecutable(file: string): boolean {
+  try {
+    fs.accessSync(file, fs.constants.X_OK);
+    return fs.statSync(file).isFile();
+  } catch {
+    return false;
+  }
+}
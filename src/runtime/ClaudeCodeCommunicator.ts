@@ -1,86 +1,214 @@
 /**
  * Claude Code Communicator
  * Handles bidirectional communication with Claude Code via stdin/stdout
+ * (PTY or stream-json pipes, see ClaudeCodeProcess)
  * Translates between OpenClaw messages and Claude Code commands
  */
 
 import { EventEmitter } from 'events';
 import { ClaudeCodeProcessSpawner } from './ClaudeCodeProcessSpawner';
-import { ClaudeCodeEvent } from '../types/runtime';
+import { TuiScreenParser } from './TuiScreenParser';
+import {
+  ClaudeCodeAskOptions,
+  ClaudeCodeEvent,
+  ClaudeCodeMcpServerStatus,
+  ClaudeCodeSession,
+  ClaudeCodeUsage,
+} from '../types/runtime';
 
 export interface CommunicatorOptions {
   /** Process spawner instance */
   spawner: ClaudeCodeProcessSpawner;
 
-  /** Parser for Claude Code output */
+  /** Creates each session's parser (default: defaultOutputParserFactory) */
+  parserFactory?: OutputParserFactory;
+
+  /**
+   * Parser for Claude Code output
+   * @deprecated Use parserFactory; this one parser is shared by every session
+   */
   outputParser?: OutputParser;
 
   /** Logger function */
   logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
 }
 
+/**
+ * Creates the parser for a session; called once per session (and again after a restart)
+ */
+export type OutputParserFactory = (session: ClaudeCodeSession) => OutputParser;
+
 export interface OutputParser {
-  /** Parse Claude Code output and extract structured data */
-  parse(output: string): ParsedOutput;
-}
+  /**
+   * Parse a chunk of Claude Code output into zero or more structured outputs.
+   * Returning a single ParsedOutput, as parsers did before they could return
+   * several, still works.
+   */
+  parse(output: string): ParsedOutput | ParsedOutput[] | Promise<ParsedOutput | ParsedOutput[]>;
+
+  /** Parse whatever is left once the session's output has ended */
+  flush?(): ParsedOutput[];
 
-export interface ParsedOutput {
-  /** Output type */
-  type: 'status' | 'result' | 'error' | 'prompt' | 'raw';
+  /** Release resources held for the session */
+  dispose?(): void;
+}
 
+interface ParsedOutputBase {
   /** Parsed content */
   content: string;
 
-  /** Structured data (if JSON output mode) */
+  /** Structured data (the raw message in stream-json mode) */
   data?: any;
 
   /** Whether this indicates task completion */
   isComplete?: boolean;
 
-  /** Error message if type === 'error' */
+  /** Error message if type === 'error' (or a failed result) */
   error?: string;
 }
 
 /**
- * Default output parser for Claude Code text mode
+ * Text-mode output, and stream-json messages with no kind of their own
+ */
+export interface ParsedTextOutput extends ParsedOutputBase {
+  type: 'status' | 'error' | 'prompt' | 'raw';
+}
+
+/**
+ * Session start: the CLI's session ID, model, tools and MCP servers
+ */
+export interface ParsedInitOutput extends ParsedOutputBase {
+  type: 'init';
+  claudeSessionId?: string;
+  model?: string;
+  cwd?: string;
+  tools: string[];
+  mcpServers: ClaudeCodeMcpServerStatus[];
+}
+
+/**
+ * A text block of an assistant message
+ */
+export interface ParsedAssistantTextOutput extends ParsedOutputBase {
+  type: 'assistant-text';
+}
+
+/**
+ * A tool call made by the assistant
+ */
+export interface ParsedToolUseOutput extends ParsedOutputBase {
+  type: 'tool-use';
+  toolUseId: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * The result of a tool call, fed back to the assistant
+ */
+export interface ParsedToolResultOutput extends ParsedOutputBase {
+  type: 'tool-result';
+  toolUseId: string;
+  isError: boolean;
+}
+
+/**
+ * The end of a turn. Stream-json results carry cost, usage and timing.
+ */
+export interface ParsedResultOutput extends ParsedOutputBase {
+  type: 'result';
+  isError?: boolean;
+  subtype?: string;
+  costUsd?: number;
+  durationMs?: number;
+  numTurns?: number;
+  usage?: ClaudeCodeUsage;
+}
+
+/**
+ * Token usage of one model call, from an assistant message. A message that
+ * arrives in several parts repeats its ID; the last part's usage counts.
+ */
+export interface ParsedUsageOutput extends ParsedOutputBase {
+  type: 'usage';
+  messageId?: string;
+  usage: ClaudeCodeUsage;
+}
+
+/**
+ * What the TUI is showing: still starting, waiting for input, running a
+ * turn, or asking for permission
+ */
+export type TuiScreenState = 'starting' | 'ready' | 'working' | 'permission';
+
+/**
+ * A change of TUI state, read off the emulated screen (PTY backend)
+ */
+export interface ParsedScreenOutput extends ParsedOutputBase {
+  type: 'screen';
+  state: TuiScreenState;
+
+  /** The whole visible screen */
+  screen: string;
+
+  /** Numbered choices of a permission dialog, e.g. '1. Yes' */
+  options?: string[];
+
+  /** The tool call a permission dialog asks about, as far as the screen tells */
+  permission?: { toolName: string; input: Record<string, unknown>; partial?: boolean };
+}
+
+export type ParsedOutput =
+  | ParsedTextOutput
+  | ParsedScreenOutput
+  | ParsedInitOutput
+  | ParsedAssistantTextOutput
+  | ParsedToolUseOutput
+  | ParsedToolResultOutput
+  | ParsedResultOutput
+  | ParsedUsageOutput;
+
+/**
+ * Keyword-matching parser for plain text output. The TUI is better served by
+ * TuiScreenParser, which reads the rendered screen instead.
  */
 export class DefaultOutputParser implements OutputParser {
   private buffer: string = '';
 
-  parse(output: string): ParsedOutput {
+  parse(output: string): ParsedOutput[] {
     this.buffer += output;
 
     // Detect completion patterns
     if (this.buffer.includes('Task completed') || this.buffer.includes('Done')) {
-      return {
+      return [{
         type: 'result',
         content: this.buffer,
         isComplete: true,
-      };
+      }];
     }
 
     // Detect error patterns
     if (this.buffer.includes('Error:') || this.buffer.includes('Failed')) {
-      return {
+      return [{
         type: 'error',
         content: this.buffer,
         error: this.extractError(this.buffer),
-      };
+      }];
     }
 
     // Detect prompts (Claude asking for input)
     if (this.buffer.endsWith('?') || this.buffer.includes('Please provide')) {
-      return {
+      return [{
         type: 'prompt',
         content: this.buffer,
-      };
+      }];
     }
 
     // Regular output
-    return {
+    return [{
       type: 'raw',
       content: output,
-    };
+    }];
   }
 
   private extractError(text: string): string {
@@ -94,61 +222,229 @@ export class DefaultOutputParser implements OutputParser {
 }
 
 /**
- * JSON output parser for structured Claude Code responses
+ * Parser for the stream-json backend: newline-delimited CLI messages, split
+ * arbitrarily across chunks. Keeps a partial line between calls, so use one
+ * instance per session.
  */
 export class JsonOutputParser implements OutputParser {
-  parse(output: string): ParsedOutput {
+  private lineBuffer: string = '';
+
+  parse(output: string): ParsedOutput[] {
+    this.lineBuffer += output;
+    const lines = this.lineBuffer.split('\n');
+    this.lineBuffer = lines.pop() || '';
+
+    return lines.flatMap((line) => this.parseLine(line));
+  }
+
+  /**
+   * Parse whatever is left once the stream has ended
+   */
+  flush(): ParsedOutput[] {
+    const rest = this.lineBuffer;
+    this.lineBuffer = '';
+    return this.parseLine(rest);
+  }
+
+  reset(): void {
+    this.lineBuffer = '';
+  }
+
+  private parseLine(line: string): ParsedOutput[] {
+    const trimmed = line.trim();
+    if (!trimmed) return [];
+
+    let data: unknown;
     try {
-      const data = JSON.parse(output);
+      data = JSON.parse(trimmed);
+    } catch {
+      // Not JSON (e.g. a warning printed to stdout), pass it through
+      return [{ type: 'raw', content: line }];
+    }
+    if (!isObject(data)) {
+      return [{ type: 'raw', content: line }];
+    }
 
-      if (data.type === 'completion') {
-        return {
-          type: 'result',
-          content: data.result || '',
-          data,
-          isComplete: true,
-        };
+    switch (data.type) {
+      case 'system':
+        if (data.subtype === 'init') {
+          return [{
+            type: 'init',
+            content: '',
+            data,
+            claudeSessionId: asString(data.session_id),
+            model: asString(data.model),
+            cwd: asString(data.cwd),
+            tools: Array.isArray(data.tools) ? data.tools.filter((tool): tool is string => typeof tool === 'string') : [],
+            mcpServers: (Array.isArray(data.mcp_servers) ? data.mcp_servers : [])
+              .filter(isObject)
+              .filter((server) => typeof server.name === 'string')
+              .map((server) => ({ name: server.name as string, status: asString(server.status) || 'unknown' })),
+          }];
+        }
+        break;
+
+      case 'assistant': {
+        const message = isObject(data.message) ? data.message : {};
+        const usage = parseUsage(message.usage);
+        const usageOutputs: ParsedOutput[] = usage
+          ? [{ type: 'usage', content: '', data, messageId: asString(message.id), usage }]
+          : [];
+
+        return usageOutputs.concat(contentBlocks(data).flatMap((block): ParsedOutput[] => {
+          if (block.type === 'text' && typeof block.text === 'string') {
+            return [{ type: 'assistant-text', content: block.text, data }];
+          }
+          if (block.type === 'tool_use' && typeof block.name === 'string') {
+            return [{
+              type: 'tool-use',
+              content: JSON.stringify(block.input ?? {}),
+              data,
+              toolUseId: asString(block.id) || '',
+              name: block.name,
+              input: isObject(block.input) ? block.input : {},
+            }];
+          }
+          return [];
+        }));
       }
 
-      if (data.type === 'error') {
-        return {
-          type: 'error',
-          content: data.message || '',
-          data,
-          error: data.message,
-        };
+      case 'user': {
+        // Tool results come back to the model as user turns
+        const results = contentBlocks(data).filter((block) => block.type === 'tool_result');
+        if (results.length > 0) {
+          return results.map((block) => ({
+            type: 'tool-result' as const,
+            content: toolResultText(block.content),
+            data,
+            toolUseId: asString(block.tool_use_id) || '',
+            isError: block.is_error === true,
+          }));
+        }
+        break;
       }
 
-      return {
-        type: 'status',
-        content: JSON.stringify(data, null, 2),
-        data,
-      };
-    } catch {
-      // Not valid JSON, treat as raw output
-      return {
-        type: 'raw',
-        content: output,
-      };
+      case 'result': {
+        const isError = data.is_error === true;
+        const content = asString(data.result) || '';
+        return [{
+          type: 'result',
+          content,
+          data,
+          isComplete: true,
+          isError,
+          error: isError ? content || asString(data.subtype) || 'Claude Code reported an error' : undefined,
+          subtype: asString(data.subtype),
+          costUsd: asNumber(data.total_cost_usd),
+          durationMs: asNumber(data.duration_ms),
+          numTurns: asNumber(data.num_turns),
+          usage: parseUsage(data.usage),
+        }];
+      }
     }
+
+    return [{ type: 'status', content: trimmed, data }];
   }
 }
 
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function contentBlocks(data: Record<string, unknown>): Record<string, unknown>[] {
+  const content = isObject(data.message) ? data.message.content : undefined;
+  return Array.isArray(content) ? content.filter(isObject) : [];
+}
+
+/**
+ * Tool result content is either a string or a list of content blocks
+ */
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter(isObject)
+    .filter((block) => block.type === 'text' && typeof block.text === 'string')
+    .map((block) => block.text)
+    .join('\n');
+}
+
+function parseUsage(usage: unknown): ClaudeCodeUsage | undefined {
+  if (!isObject(usage)) return undefined;
+  return {
+    inputTokens: asNumber(usage.input_tokens) ?? 0,
+    outputTokens: asNumber(usage.output_tokens) ?? 0,
+    cacheCreationInputTokens: asNumber(usage.cache_creation_input_tokens),
+    cacheReadInputTokens: asNumber(usage.cache_read_input_tokens),
+  };
+}
+
+/**
+ * Stream-json sessions get a JsonOutputParser, TUI sessions a TuiScreenParser
+ */
+export function defaultOutputParserFactory(session: ClaudeCodeSession): OutputParser {
+  return session.backend === 'stream-json' ? new JsonOutputParser() : new TuiScreenParser();
+}
+
+/** A message waiting for (or getting) its reply through ask() */
+interface Turn {
+  message: string;
+  timeoutMs: number;
+  resolve: (output: ParsedOutput) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+  settle: () => void;
+}
+
+/** Turn-taking state of one session */
+interface Conversation {
+  /** A turn is running (the task, a message, or an abandoned turn being interrupted) */
+  busy: boolean;
+  current?: Turn;
+  queue: Turn[];
+  /** Set while a timed-out turn is being interrupted */
+  abandonTimer?: NodeJS.Timeout;
+}
+
+const DEFAULT_TURN_TIMEOUT_MS = 300000;
+
+/** Time an interrupted turn gets to report its end before the next message goes anyway */
+const ABANDONED_TURN_GRACE_MS = 10000;
+
 /**
  * Manages communication with Claude Code sessions
  */
 export class ClaudeCodeCommunicator extends EventEmitter {
   private spawner: ClaudeCodeProcessSpawner;
-  private parser: OutputParser;
+  private parserFactory: OutputParserFactory;
+  /** The deprecated outputParser, which outlives every session it parses */
+  private sharedParser?: OutputParser;
+  private sessionParsers: Map<string, { parser: OutputParser; pending: Promise<void> }>;
   private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
-  private outputHandlers: Map<string, (output: ParsedOutput) => void>;
+  private outputHandlers: Map<string, Set<(output: ParsedOutput) => void>>;
+  private conversations: Map<string, Conversation>;
 
   constructor(options: CommunicatorOptions) {
     super();
     this.spawner = options.spawner;
-    this.parser = options.outputParser || new DefaultOutputParser();
+    this.parserFactory = options.parserFactory || defaultOutputParserFactory;
+    if (!options.parserFactory && options.outputParser) {
+      const parser = options.outputParser;
+      this.sharedParser = parser;
+      this.parserFactory = () => parser;
+    }
+    this.sessionParsers = new Map();
     this.logger = options.logger || this.defaultLogger;
     this.outputHandlers = new Map();
+    this.conversations = new Map();
 
     this.setupSpawnerHandlers();
   }
@@ -162,9 +458,80 @@ export class ClaudeCodeCommunicator extends EventEmitter {
       message: message.substring(0, 100),
     });
 
-    // Format message for Claude Code
-    const formattedMessage = this.formatMessage(message);
-    this.spawner.write(sessionId, formattedMessage);
+    this.spawner.sendMessage(sessionId, message);
+  }
+
+  /**
+   * Send a message as its own turn and resolve with that turn's result.
+   * While the session is busy (its task or an earlier message is still
+   * running) the message waits in a queue and goes out, in order, once the
+   * session is idle. The timeout counts from delivery; a turn that times out
+   * is interrupted so its late reply isn't taken for the next one's.
+   */
+  ask(sessionId: string, message: string, options: ClaudeCodeAskOptions = {}): Promise<ParsedOutput> {
+    const conversation = this.conversation(sessionId);
+    const { signal } = options;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const queued = conversation.queue.indexOf(turn);
+        if (queued >= 0) {
+          conversation.queue.splice(queued, 1);
+        } else if (conversation.current === turn) {
+          this.abandonTurn(sessionId, conversation);
+        }
+        turn.settle();
+        reject(signal?.reason instanceof Error ? signal.reason : new Error(`Aborted waiting for reply: ${sessionId}`));
+      };
+
+      const turn: Turn = {
+        message,
+        timeoutMs: options.timeoutMs ?? DEFAULT_TURN_TIMEOUT_MS,
+        resolve,
+        reject,
+        settle: () => {
+          clearTimeout(turn.timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      };
+
+      if (signal?.aborted) {
+        reject(signal.reason instanceof Error ? signal.reason : new Error(`Aborted waiting for reply: ${sessionId}`));
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      conversation.queue.push(turn);
+      if (conversation.busy) {
+        this.logger('debug', 'Session busy; message queued', { sessionId, position: conversation.queue.length });
+      }
+      this.deliverNext(sessionId);
+    });
+  }
+
+  /**
+   * Messages waiting for the session to go idle
+   */
+  getQueuedMessages(sessionId: string): string[] {
+    return (this.conversations.get(sessionId)?.queue || []).map((turn) => turn.message);
+  }
+
+  /**
+   * Reject every ask() still waiting on a session (e.g. a queued session that was cancelled)
+   */
+  cancelMessages(sessionId: string, reason: string = `Messages to session ${sessionId} were cancelled`): void {
+    this.endConversation(sessionId, reason);
+  }
+
+  /**
+   * End a session that never got a process (cancelled while queued, or its
+   * launch failed): pending turns are rejected and completion waiters told
+   * it ended, as for a session whose process stopped
+   */
+  endSession(sessionId: string, reason: string = `Session ${sessionId} stopped before replying`): void {
+    this.endConversation(sessionId, reason);
+    this.offOutput(sessionId);
+    this.emit('output-ended', { sessionId });
   }
 
   /**
@@ -178,39 +545,84 @@ export class ClaudeCodeCommunicator extends EventEmitter {
       command: fullCommand,
     });
 
-    this.spawner.write(sessionId, `${fullCommand}\n`);
+    this.spawner.sendMessage(sessionId, fullCommand);
   }
 
   /**
-   * Register a handler for parsed output from a specific session
+   * Subscribe to parsed output from a specific session. Returns a function
+   * that unsubscribes; a session can have any number of handlers.
    */
-  onOutput(sessionId: string, handler: (output: ParsedOutput) => void): void {
-    this.outputHandlers.set(sessionId, handler);
+  onOutput(sessionId: string, handler: (output: ParsedOutput) => void): () => void {
+    let handlers = this.outputHandlers.get(sessionId);
+    if (!handlers) {
+      handlers = new Set();
+      this.outputHandlers.set(sessionId, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.offOutput(sessionId, handler);
   }
 
   /**
-   * Remove output handler for a session
+   * Remove one output handler of a session, or all of them
    */
-  offOutput(sessionId: string): void {
-    this.outputHandlers.delete(sessionId);
+  offOutput(sessionId: string, handler?: (output: ParsedOutput) => void): void {
+    const handlers = this.outputHandlers.get(sessionId);
+    if (!handlers) return;
+
+    if (handler) {
+      handlers.delete(handler);
+    }
+    if (!handler || handlers.size === 0) {
+      this.outputHandlers.delete(sessionId);
+    }
   }
 
   /**
-   * Wait for task completion
+   * Wait for task completion. Rejects on a failed turn, on timeout, when the
+   * session stops first, or when the signal is aborted.
    */
-  async waitForCompletion(sessionId: string, timeoutMs: number = 300000): Promise<ParsedOutput> {
+  async waitForCompletion(sessionId: string, timeoutMs: number = 300000, signal?: AbortSignal): Promise<ParsedOutput> {
     return new Promise((resolve, reject) => {
+      let unsubscribe: () => void = () => undefined;
+
+      const onAbort = () => {
+        settle();
+        reject(signal?.reason instanceof Error
+          ? signal.reason
+          : new Error(`Aborted waiting for completion: ${sessionId}`));
+      };
+
       const timeout = setTimeout(() => {
-        this.offOutput(sessionId);
+        settle();
         reject(new Error(`Timeout waiting for completion: ${sessionId}`));
       }, timeoutMs);
 
-      this.onOutput(sessionId, (output) => {
+      const onEnded = (event: { sessionId: string }) => {
+        if (event.sessionId !== sessionId) return;
+        settle();
+        reject(new Error(`Session ${sessionId} stopped before completing`));
+      };
+
+      const settle = () => {
+        clearTimeout(timeout);
+        unsubscribe();
+        signal?.removeEventListener('abort', onAbort);
+        this.off('output-ended', onEnded);
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+      this.on('output-ended', onEnded);
+
+      unsubscribe = this.onOutput(sessionId, (output) => {
         if (output.isComplete || output.type === 'error') {
-          clearTimeout(timeout);
-          this.offOutput(sessionId);
+          settle();
 
-          if (output.type === 'error') {
+          if (output.type === 'error' || (output.type === 'result' && output.isError)) {
             reject(new Error(output.error || 'Task failed'));
           } else {
             resolve(output);
@@ -229,7 +641,7 @@ export class ClaudeCodeCommunicator extends EventEmitter {
       response: response.substring(0, 100),
     });
 
-    this.spawner.write(sessionId, `${response}\n`);
+    this.spawner.sendMessage(sessionId, response);
   }
 
   /**
@@ -237,14 +649,20 @@ export class ClaudeCodeCommunicator extends EventEmitter {
    */
   async interrupt(sessionId: string): Promise<void> {
     this.logger('info', 'Interrupting Claude Code session', { sessionId });
-    this.spawner.write(sessionId, '\x03');
+    this.spawner.interrupt(sessionId);
   }
 
   /**
    * Clean up handlers
    */
   cleanup(): void {
+    for (const sessionId of Array.from(this.conversations.keys())) {
+      this.endConversation(sessionId, 'Communicator cleaned up');
+    }
     this.outputHandlers.clear();
+    for (const sessionId of Array.from(this.sessionParsers.keys())) {
+      this.releaseParser(sessionId);
+    }
   }
 
   // Private methods
@@ -255,23 +673,30 @@ export class ClaudeCodeCommunicator extends EventEmitter {
 
       const { sessionId, data } = event as Extract<ClaudeCodeEvent, { type: 'output' }>;
 
-      // Parse output
-      const parsed = this.parser.parse(data);
+      this.parseOutput(sessionId, data);
+    });
 
-      // Emit parsed output
-      this.emit('parsed-output', { sessionId, output: parsed });
+    // A restarted process starts a fresh stream and screen, and the turn the old one was on is lost
+    this.spawner.on('restarting', (event: ClaudeCodeEvent) => {
+      this.releaseParser(event.sessionId).then(() =>
+        this.turnLost(event.sessionId, `Session ${event.sessionId} restarted before replying`)
+      );
+    });
 
-      // Call session-specific handler
-      const handler = this.outputHandlers.get(sessionId);
-      if (handler) {
-        handler(parsed);
-      }
+    // Every message is a turn; the session is busy until the turn's result
+    this.spawner.on('input', (event: ClaudeCodeEvent) => {
+      if (event.type !== 'input' || event.kind !== 'message') return;
+      this.conversation(event.sessionId).busy = true;
+    });
 
-      this.logger('debug', 'Parsed output', {
-        sessionId,
-        type: parsed.type,
-        isComplete: parsed.isComplete,
-      });
+    // A respawned session may be idle at its prompt with queued messages waiting
+    this.spawner.on('started', (event: ClaudeCodeEvent) => {
+      this.deliverNext(event.sessionId);
+    });
+
+    // Handlers go once the last of the session's output is delivered
+    this.spawner.on('stopped', (event: ClaudeCodeEvent) => {
+      this.releaseParser(event.sessionId).then(() => this.endSession(event.sessionId));
     });
 
     this.spawner.on('error', (event: ClaudeCodeEvent) => {
@@ -280,25 +705,252 @@ export class ClaudeCodeCommunicator extends EventEmitter {
       const { sessionId, error } = event as Extract<ClaudeCodeEvent, { type: 'error' }>;
 
       this.logger('error', 'Claude Code error', { sessionId, error });
-      this.emit('error', { sessionId, error });
+
+      // An unhandled 'error' event would throw inside the spawner's emit
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', { sessionId, error });
+      }
+
+      this.notify(sessionId, { type: 'error', content: error, error });
     });
 
     this.spawner.on('completed', (event: ClaudeCodeEvent) => {
       if (event.type !== 'completed') return;
 
-      const { sessionId } = event as Extract<ClaudeCodeEvent, { type: 'completed' }>;
+      const { sessionId, result } = event as Extract<ClaudeCodeEvent, { type: 'completed' }>;
 
-      this.logger('info', 'Claude Code task completed', { sessionId });
+      // Handlers see the full result (cost, usage) through the stream-json parser
+      this.logger('info', 'Claude Code task completed', { sessionId, result: result?.substring(0, 100) });
       this.emit('completed', { sessionId });
+    });
+  }
+
+  /**
+   * Hand a parsed output to listeners: 'parsed-output' for everything, plus
+   * an event per stream-json kind ('init', 'assistant-text', 'tool-use',
+   * 'tool-result', 'usage', 'result') and the session's handlers
+   */
+  private route(sessionId: string, parsed: ParsedOutput): void {
+    this.emit('parsed-output', { sessionId, output: parsed });
+
+    switch (parsed.type) {
+      case 'init':
+      case 'assistant-text':
+      case 'tool-use':
+      case 'tool-result':
+      case 'usage':
+      case 'result':
+        this.emit(parsed.type, { sessionId, output: parsed });
+        break;
+    }
+
+    this.notify(sessionId, parsed);
 
-      // Clean up handler
-      this.offOutput(sessionId);
+    if (parsed.isComplete) {
+      this.turnEnded(sessionId, parsed);
+    }
+
+    this.logger('debug', 'Parsed output', {
+      sessionId,
+      type: parsed.type,
+      isComplete: parsed.isComplete,
+      tool: parsed.type === 'tool-use' ? parsed.name : undefined,
     });
   }
 
-  private formatMessage(message: string): string {
-    // Ensure message ends with newline for Claude Code to process
-    return message.endsWith('\n') ? message : `${message}\n`;
+  private conversation(sessionId: string): Conversation {
+    let conversation = this.conversations.get(sessionId);
+    if (!conversation) {
+      conversation = { busy: false, queue: [] };
+      this.conversations.set(sessionId, conversation);
+    }
+    return conversation;
+  }
+
+  /**
+   * Send the next queued message if the session is live and idle
+   */
+  private deliverNext(sessionId: string): void {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation || conversation.busy || conversation.queue.length === 0) return;
+
+    // Not started yet (queued, or the TUI is still loading): 'started' tries again
+    const session = this.spawner.getSession(sessionId);
+    if (!session || session.state === 'starting' || session.state === 'restarting') return;
+
+    const turn = conversation.queue.shift() as Turn;
+    conversation.current = turn;
+    conversation.busy = true;
+
+    turn.timer = setTimeout(() => {
+      this.logger('warn', 'Turn timed out; interrupting it', { sessionId, timeoutMs: turn.timeoutMs });
+      this.abandonTurn(sessionId, conversation);
+      turn.settle();
+      turn.reject(new Error(`Timeout waiting for reply: ${sessionId}`));
+    }, turn.timeoutMs);
+
+    try {
+      this.logger('info', 'Sending message to Claude Code', { sessionId, message: turn.message.substring(0, 100) });
+      this.spawner.sendMessage(sessionId, turn.message);
+    } catch (error) {
+      conversation.current = undefined;
+      conversation.busy = false;
+      turn.settle();
+      turn.reject(error instanceof Error ? error : new Error(String(error)));
+      this.deliverNext(sessionId);
+    }
+  }
+
+  /**
+   * A result ended the running turn: answer its ask() and move on
+   */
+  private turnEnded(sessionId: string, output: ParsedOutput): void {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return;
+
+    const turn = conversation.current;
+    conversation.current = undefined;
+    conversation.busy = false;
+    clearTimeout(conversation.abandonTimer);
+    conversation.abandonTimer = undefined;
+
+    if (turn) {
+      turn.settle();
+      if (output.type === 'result' && output.isError) {
+        turn.reject(new Error(output.error || 'Turn failed'));
+      } else {
+        turn.resolve(output);
+      }
+    }
+
+    this.deliverNext(sessionId);
+  }
+
+  /**
+   * The process running the turn exited: its reply will never come, so fail
+   * the turn and let the queue carry on once the session is back
+   */
+  private turnLost(sessionId: string, reason: string): void {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return;
+
+    const turn = conversation.current;
+    conversation.current = undefined;
+    conversation.busy = false;
+    clearTimeout(conversation.abandonTimer);
+    conversation.abandonTimer = undefined;
+
+    if (turn) {
+      turn.settle();
+      turn.reject(new Error(reason));
+    }
+
+    this.deliverNext(sessionId);
+  }
+
+  /**
+   * Give up on the running turn: interrupt it and hold the queue until it
+   * ends (or the grace period passes), so its reply isn't misattributed
+   */
+  private abandonTurn(sessionId: string, conversation: Conversation): void {
+    conversation.current = undefined;
+
+    try {
+      this.spawner.interrupt(sessionId);
+    } catch {
+      // Already gone; 'stopped' ends the conversation
+    }
+
+    clearTimeout(conversation.abandonTimer);
+    conversation.abandonTimer = setTimeout(() => {
+      conversation.abandonTimer = undefined;
+      conversation.busy = false;
+      this.deliverNext(sessionId);
+    }, ABANDONED_TURN_GRACE_MS);
+    conversation.abandonTimer.unref();
+  }
+
+  /**
+   * Reject the running and queued turns of a session and forget it
+   */
+  private endConversation(sessionId: string, reason: string): void {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return;
+    this.conversations.delete(sessionId);
+    clearTimeout(conversation.abandonTimer);
+
+    const turns = conversation.current ? [conversation.current, ...conversation.queue] : conversation.queue;
+    for (const turn of turns) {
+      turn.settle();
+      turn.reject(new Error(reason));
+    }
+  }
+
+  private notify(sessionId: string, output: ParsedOutput): void {
+    // Copy, since a handler may unsubscribe while we iterate
+    for (const handler of Array.from(this.outputHandlers.get(sessionId) || [])) {
+      try {
+        handler(output);
+      } catch (error) {
+        this.logger('error', 'Output handler failed', {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private parseOutput(sessionId: string, data: string): void {
+    const entry = this.parserFor(sessionId);
+    if (!entry) return;
+
+    const parsed = entry.parser.parse(data);
+
+    if (!(parsed instanceof Promise)) {
+      toOutputs(parsed).forEach((output) => this.route(sessionId, output));
+      return;
+    }
+
+    // Asynchronous parsers (the terminal emulator) finish in write order
+    entry.pending = entry.pending
+      .then(() => parsed)
+      .then((outputs) => toOutputs(outputs).forEach((output) => this.route(sessionId, output)))
+      .catch((error) => {
+        this.logger('warn', 'Failed to parse output', {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  private parserFor(sessionId: string): { parser: OutputParser; pending: Promise<void> } | undefined {
+    let entry = this.sessionParsers.get(sessionId);
+    if (!entry) {
+      const session = this.spawner.getSession(sessionId);
+      if (!session) return undefined;
+
+      entry = { parser: this.parserFactory(session), pending: Promise.resolve() };
+      this.sessionParsers.set(sessionId, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Parse what's left of a session's output, then drop its parser
+   */
+  private releaseParser(sessionId: string): Promise<void> {
+    const entry = this.sessionParsers.get(sessionId);
+    if (!entry) return Promise.resolve();
+    this.sessionParsers.delete(sessionId);
+
+    return entry.pending.then(() => {
+      // The caller's shared parser belongs to them, and what it holds may be another session's
+      if (entry.parser === this.sharedParser) return;
+
+      // e.g. a last line the CLI didn't terminate
+      entry.parser.flush?.().forEach((output) => this.route(sessionId, output));
+      entry.parser.dispose?.();
+    });
   }
 
   private defaultLogger(level: string, message: string, meta?: any): void {
@@ -307,3 +959,11 @@ export class ClaudeCodeCommunicator extends EventEmitter {
     console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
   }
 }
+
+/**
+ * A parser's outputs as a list, whichever shape it returned them in
+ */
+function toOutputs(parsed: ParsedOutput | ParsedOutput[] | undefined): ParsedOutput[] {
+  if (Array.isArray(parsed)) return parsed;
+  return parsed ? [parsed] : [];
+}
@@ -0,0 +1,279 @@
+/**
+ * Claude Code Event Stream
+ * Per-session event history and async-iterable readers over it, so a consumer
+ * can `for await` a session's events from its start without attaching (and
+ * forgetting to detach) emitter listeners
+ */
+
+import { EventEmitter } from 'events';
+import { ParsedOutput } from './ClaudeCodeCommunicator';
+import { ClaudeCodeEvent, ClaudeCodeStreamOptions } from '../types/runtime';
+
+/**
+ * What stream() yields: every runtime event of the session, plus its parsed output
+ */
+export type ClaudeCodeStreamEvent =
+  | ClaudeCodeEvent
+  | { type: 'parsed-output'; sessionId: string; output: ParsedOutput };
+
+export interface EventStreamOptions {
+  /** Emitter of the events to record (the runtime) */
+  source: EventEmitter;
+
+  /** Events kept per session (default 1000) */
+  historyLimit?: number;
+
+  /** Finished sessions whose history is kept (default 50) */
+  maxEndedSessions?: number;
+
+  /** Called when a reader falls behind, and when it catches up again */
+  pause?: (sessionId: string) => void;
+  resume?: (sessionId: string) => void;
+}
+
+const DEFAULT_HISTORY_LIMIT = 1000;
+const DEFAULT_MAX_ENDED_SESSIONS = 50;
+const DEFAULT_HIGH_WATER_MARK = 1000;
+
+/** Runtime events that belong to a session */
+const STREAMED_EVENTS: ClaudeCodeStreamEvent['type'][] = [
+  'queued',
+  'cancelled',
+  'started',
+  'session-id',
+  'mcp-status',
+  'input',
+  'output',
+  'parsed-output',
+  'error',
+  'completed',
+  'idle',
+  'watchdog',
+  'usage',
+  'budget',
+  'permission-request',
+  'permission-decision',
+  'restarting',
+  'gave-up',
+  'stopped',
+];
+
+/** Events after which a session produces nothing more */
+const END_EVENTS = new Set<ClaudeCodeStreamEvent['type']>(['stopped', 'cancelled']);
+
+interface SessionHistory {
+  events: ClaudeCodeStreamEvent[];
+  ended: boolean;
+  readers: Set<StreamReader>;
+}
+
+/**
+ * Records session events as they're emitted and hands out readers
+ */
+export class ClaudeCodeEventStream {
+  private histories: Map<string, SessionHistory> = new Map();
+  private endedSessions: string[] = [];
+  private historyLimit: number;
+  private maxEndedSessions: number;
+  private pause: (sessionId: string) => void;
+  private resume: (sessionId: string) => void;
+
+  constructor(options: EventStreamOptions) {
+    this.historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    this.maxEndedSessions = options.maxEndedSessions ?? DEFAULT_MAX_ENDED_SESSIONS;
+    this.pause = options.pause || (() => undefined);
+    this.resume = options.resume || (() => undefined);
+
+    for (const eventType of STREAMED_EVENTS) {
+      options.source.on(eventType, (event: ClaudeCodeStreamEvent) => {
+        // Parsed output is emitted as { sessionId, output }, without a type
+        this.record(eventType === 'parsed-output' ? { ...event, type: 'parsed-output' } as ClaudeCodeStreamEvent : event);
+      });
+    }
+  }
+
+  /**
+   * Events of a session, history first (unless replay is false), ending
+   * when the session stops. A session with no history that isn't live
+   * yields nothing.
+   */
+  stream(sessionId: string, options: ClaudeCodeStreamOptions = {}, live: boolean = true): AsyncIterableIterator<ClaudeCodeStreamEvent> {
+    let history = this.histories.get(sessionId);
+    if (!history) {
+      history = { events: [], ended: !live, readers: new Set() };
+      if (live) this.histories.set(sessionId, history);
+    }
+
+    const owner = history;
+    const reader = new StreamReader(options.highWaterMark ?? DEFAULT_HIGH_WATER_MARK, {
+      pause: () => this.pause(sessionId),
+      resume: () => this.resume(sessionId),
+      detach: () => owner.readers.delete(reader),
+    });
+
+    if (options.replay !== false) {
+      for (const event of history.events) reader.push(event);
+    }
+
+    if (history.ended) {
+      reader.end();
+    } else {
+      history.readers.add(reader);
+    }
+
+    if (options.signal) {
+      if (options.signal.aborted) {
+        reader.return();
+      } else {
+        options.signal.addEventListener('abort', () => reader.return(), { once: true });
+      }
+    }
+
+    return reader;
+  }
+
+  /**
+   * Whether events of a session are recorded
+   */
+  has(sessionId: string): boolean {
+    return this.histories.has(sessionId);
+  }
+
+  /**
+   * Drop every history and end all readers
+   */
+  clear(): void {
+    for (const history of this.histories.values()) {
+      for (const reader of history.readers) reader.end();
+    }
+    this.histories.clear();
+    this.endedSessions = [];
+  }
+
+  // Private methods
+
+  private record(event: ClaudeCodeStreamEvent): void {
+    // Transcript replays re-emit old events; they aren't part of a live session
+    if ('replayed' in event && event.replayed) return;
+
+    let history = this.histories.get(event.sessionId);
+    if (!history) {
+      history = { events: [], ended: false, readers: new Set() };
+      this.histories.set(event.sessionId, history);
+    }
+    if (history.ended) return;
+
+    history.events.push(event);
+    if (history.events.length > this.historyLimit) history.events.shift();
+
+    for (const reader of history.readers) reader.push(event);
+
+    if (END_EVENTS.has(event.type)) {
+      history.ended = true;
+      for (const reader of history.readers) reader.end();
+      history.readers.clear();
+      this.retire(event.sessionId);
+    }
+  }
+
+  /**
+   * Keep a finished session's history around for late readers, up to maxEndedSessions
+   */
+  private retire(sessionId: string): void {
+    this.endedSessions.push(sessionId);
+    while (this.endedSessions.length > this.maxEndedSessions) {
+      this.histories.delete(this.endedSessions.shift() as string);
+    }
+  }
+}
+
+/**
+ * One consumer's view of a session: a queue drained by next(), which pauses
+ * the session's output while highWaterMark or more events are unread
+ */
+class StreamReader implements AsyncIterableIterator<ClaudeCodeStreamEvent> {
+  private queue: ClaudeCodeStreamEvent[] = [];
+  private waiting?: (result: IteratorResult<ClaudeCodeStreamEvent>) => void;
+  private ended: boolean = false;
+  private paused: boolean = false;
+
+  constructor(
+    private highWaterMark: number,
+    private hooks: { pause: () => void; resume: () => void; detach: () => void }
+  ) {}
+
+  push(event: ClaudeCodeStreamEvent): void {
+    if (this.ended) return;
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = undefined;
+      resolve({ value: event, done: false });
+      return;
+    }
+
+    this.queue.push(event);
+    if (!this.paused && this.queue.length >= this.highWaterMark) {
+      this.paused = true;
+      this.hooks.pause();
+    }
+  }
+
+  /**
+   * No more events; what's queued is still delivered
+   */
+  end(): void {
+    this.ended = true;
+    if (this.waiting) {
+      this.finish();
+    }
+  }
+
+  next(): Promise<IteratorResult<ClaudeCodeStreamEvent>> {
+    if (this.queue.length > 0) {
+      const value = this.queue.shift() as ClaudeCodeStreamEvent;
+      if (this.paused && this.queue.length <= this.highWaterMark / 2) {
+        this.paused = false;
+        this.hooks.resume();
+      }
+      return Promise.resolve({ value, done: false });
+    }
+
+    if (this.ended) {
+      this.finish();
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+
+  /**
+   * Stop reading (break out of `for await`, or abort): drops what's queued
+   */
+  return(): Promise<IteratorResult<ClaudeCodeStreamEvent>> {
+    this.ended = true;
+    this.queue = [];
+    this.finish();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<ClaudeCodeStreamEvent> {
+    return this;
+  }
+
+  private finish(): void {
+    if (this.paused) {
+      this.paused = false;
+      this.hooks.resume();
+    }
+    this.hooks.detach();
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = undefined;
+      resolve({ value: undefined, done: true });
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Claude Code Permission Broker
+ * Decides tool-permission requests from sessions that aren't in
+ * bypassPermissions: declarative rules first, then the approval callback,
+ * then the configured default. Every decision goes to an audit log.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchGlob, matchPathGlob } from '../utils/glob';
+import { splitShellCommand, toolInputPath } from '../utils/toolInput';
+import {
+  ClaudeCodePermissionApprover,
+  ClaudeCodePermissionAuditEntry,
+  ClaudeCodePermissionDecision,
+  ClaudeCodePermissionRequest,
+  ClaudeCodePermissionRule,
+} from '../types/runtime';
+
+export interface PermissionBrokerOptions {
+  /** Allow/deny rules, checked before the approval callback */
+  rules?: ClaudeCodePermissionRule[];
+
+  /** Decision when nothing else decides (default 'deny') */
+  defaultDecision?: 'allow' | 'deny';
+
+  /** Asked about requests no rule decides */
+  approve?: ClaudeCodePermissionApprover;
+
+  /** Time the approval callback gets (default 300000) */
+  approvalTimeoutMs?: number;
+
+  /** JSONL audit log; nothing is recorded without one */
+  auditPath?: string;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 300000;
+
+/**
+ * Answers permission requests for one agent
+ */
+export class ClaudeCodePermissionBroker {
+  private rules: ClaudeCodePermissionRule[];
+  private defaultDecision: 'allow' | 'deny';
+  private approve?: ClaudeCodePermissionApprover;
+  private approvalTimeoutMs: number;
+  private auditPath?: string;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+
+  constructor(options: PermissionBrokerOptions = {}) {
+    this.rules = options.rules ?? [];
+    this.defaultDecision = options.defaultDecision ?? 'deny';
+    this.approve = options.approve;
+    this.approvalTimeoutMs = options.approvalTimeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+    this.auditPath = options.auditPath;
+    this.logger = options.logger || this.defaultLogger;
+  }
+
+  /**
+   * Decide a request and record the decision
+   */
+  async decide(request: ClaudeCodePermissionRequest): Promise<ClaudeCodePermissionDecision> {
+    const decision = this.matchRules(request) ?? (await this.askApprover(request)) ?? {
+      behavior: this.defaultDecision,
+      decidedBy: 'default',
+      ...(this.defaultDecision === 'deny' && { message: 'Not allowed by the permission policy' }),
+    };
+
+    this.logger('info', 'Permission request decided', {
+      sessionId: request.sessionId,
+      toolName: request.toolName,
+      behavior: decision.behavior,
+      decidedBy: decision.decidedBy,
+    });
+    this.record(request, decision);
+
+    return decision;
+  }
+
+  /**
+   * The rule that decides a request, if any; deny rules win over allow rules.
+   * A chained command (`git status && rm -rf ~`) is denied when any of its
+   * commands is, and allowed only when every one of them is. Input only
+   * partly read off a TUI screen is never allowed by a rule.
+   */
+  matchRules(request: ClaudeCodePermissionRequest): ClaudeCodePermissionDecision | undefined {
+    const command = typeof request.input.command === 'string' ? request.input.command : undefined;
+    const parts = command !== undefined ? splitShellCommand(command) : [];
+    const commands = parts.length > 0 ? parts : [command];
+    const matches = (candidate: ClaudeCodePermissionRule, part: string | undefined) => ruleMatches(candidate, request, part);
+
+    const deny = this.rules.find((candidate) => candidate.decision === 'deny'
+      && [command, ...commands].some((part) => matches(candidate, part)));
+    const allowRules = this.rules.filter((candidate) => candidate.decision === 'allow');
+    const allowed = !request.partial && commands.every((part) => allowRules.some((candidate) => matches(candidate, part)));
+    const rule = deny ?? (allowed ? allowRules.find((candidate) => matches(candidate, commands[0])) : undefined);
+    if (!rule) return undefined;
+
+    return {
+      behavior: rule.decision,
+      decidedBy: 'rule',
+      rule,
+      ...(rule.decision === 'deny' && { message: rule.reason || 'Denied by a permission rule' }),
+    };
+  }
+
+  /**
+   * Recorded decisions, oldest first, optionally for one session
+   */
+  readAuditLog(sessionId?: string): ClaudeCodePermissionAuditEntry[] {
+    if (!this.auditPath) return [];
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.auditPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: ClaudeCodePermissionAuditEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry: ClaudeCodePermissionAuditEntry = JSON.parse(line);
+        if (!sessionId || entry.sessionId === sessionId) entries.push(entry);
+      } catch {
+        // A line cut short by a crash
+      }
+    }
+    return entries;
+  }
+
+  // Private methods
+
+  private async askApprover(request: ClaudeCodePermissionRequest): Promise<ClaudeCodePermissionDecision | undefined> {
+    if (!this.approve) return undefined;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), this.approvalTimeoutMs);
+    });
+
+    try {
+      const answer = await Promise.race([this.approve(request), timeout]);
+      if (answer === 'timeout') {
+        this.logger('warn', 'Permission approval timed out', { sessionId: request.sessionId, toolName: request.toolName });
+        return { behavior: 'deny', decidedBy: 'timeout', message: 'No approval in time' };
+      }
+
+      if (typeof answer === 'object') {
+        return { behavior: answer.behavior, decidedBy: 'approval', ...(answer.message && { message: answer.message }) };
+      }
+      const allowed = answer === true || answer === 'allow';
+      return {
+        behavior: allowed ? 'allow' : 'deny',
+        decidedBy: 'approval',
+        ...(!allowed && { message: 'Denied by the operator' }),
+      };
+    } catch (error) {
+      // A broken approval channel must not let tools through
+      this.logger('error', 'Permission approval failed', { sessionId: request.sessionId, error });
+      return { behavior: 'deny', decidedBy: 'approval', message: 'Approval failed' };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private record(request: ClaudeCodePermissionRequest, decision: ClaudeCodePermissionDecision): void {
+    if (!this.auditPath) return;
+
+    const entry: ClaudeCodePermissionAuditEntry = {
+      timestamp: new Date().toISOString(),
+      sessionId: request.sessionId,
+      toolName: request.toolName,
+      input: request.input,
+      decision,
+    };
+    try {
+      fs.mkdirSync(path.dirname(this.auditPath), { recursive: true });
+      fs.appendFileSync(this.auditPath, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      this.logger('error', 'Failed to record permission decision', { sessionId: request.sessionId, error });
+    }
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
+
+/**
+ * Every condition a rule gives must hold for the request, with `command` one
+ * command of it; a condition on a field the request doesn't have (a command
+ * for Edit, a path for Bash) never holds
+ */
+function ruleMatches(
+  rule: ClaudeCodePermissionRule,
+  request: ClaudeCodePermissionRequest,
+  command: string | undefined
+): boolean {
+  if (rule.tool && !matchGlob(rule.tool, request.toolName)) {
+    return false;
+  }
+
+  if (rule.command) {
+    if (command === undefined || !matchGlob(rule.command, command.trim())) return false;
+  }
+
+  if (rule.path) {
+    const filePath = requestPath(request);
+    if (!filePath) return false;
+
+    if (path.isAbsolute(rule.path)) {
+      if (!matchPathGlob(rule.path, filePath)) return false;
+    } else {
+      // Relative patterns only ever match inside the workdir
+      const relative = path.relative(request.workdir, filePath);
+      if (relative.startsWith('..') || path.isAbsolute(relative) || !matchPathGlob(rule.path, relative)) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Absolute path of the file a request touches
+ */
+function requestPath(request: ClaudeCodePermissionRequest): string | undefined {
+  const filePath = toolInputPath(request.input);
+  return filePath !== undefined ? path.resolve(request.workdir, filePath) : undefined;
+}
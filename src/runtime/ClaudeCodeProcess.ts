@@ -0,0 +1,337 @@
+/**
+ * Claude Code Process Backends
+ * Uniform handle over the two ways we can drive the Claude Code CLI:
+ * the interactive TUI through node-pty, or headless stream-json over stdio pipes
+ */
+
+import { spawn as nodePtySpawn, IPty } from 'node-pty';
+import { spawn as childSpawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { ClaudeCodeBackend, ClaudeCodePermissionDecision, ClaudeCodePermissionRequest } from '../types/runtime';
+
+export interface ClaudeCodeProcessOptions {
+  /** Path to the claude binary */
+  binaryPath: string;
+
+  /** CLI arguments (backend I/O flags are added by the backend) */
+  args: string[];
+
+  /** Working directory */
+  cwd: string;
+
+  /** Process environment */
+  env: NodeJS.ProcessEnv;
+}
+
+export interface ClaudeCodeProcessExit {
+  exitCode: number;
+  signal?: NodeJS.Signals | number;
+
+  /** Tail of stderr (stream-json backend only) */
+  stderr?: string;
+}
+
+/**
+ * A running Claude Code process, independent of how it was started
+ */
+export interface ClaudeCodeProcess {
+  /** Backend that owns this process */
+  readonly backend: ClaudeCodeBackend;
+
+  /** OS process ID */
+  readonly pid: number;
+
+  /** Write raw input to the process */
+  write(data: string): void;
+
+  /** Send a user turn (a line of text for the TUI, a user message for stream-json) */
+  sendMessage(text: string): void;
+
+  /** Interrupt the current turn */
+  interrupt(): void;
+
+  /** Answer a tool-permission request the CLI is waiting on */
+  answerPermission(request: ClaudeCodePermissionRequest, decision: ClaudeCodePermissionDecision): void;
+
+  /** Ask the CLI to exit on its own */
+  requestExit(): void;
+
+  /** Send a signal to the process */
+  kill(signal?: NodeJS.Signals): void;
+
+  /** Stop reading output; the CLI blocks once the pipe fills */
+  pause(): void;
+
+  /** Read output again after pause() */
+  resume(): void;
+
+  /** Subscribe to output; returns an unsubscribe function */
+  onData(listener: (data: string) => void): () => void;
+
+  /** Subscribe to decoded stream-json messages (stream-json backend only) */
+  onMessage(listener: (message: Record<string, unknown>) => void): void;
+
+  /** Subscribe to process exit */
+  onExit(listener: (exit: ClaudeCodeProcessExit) => void): void;
+}
+
+/** Size of the TUI's pseudo-terminal (and of the screen the parser emulates) */
+export const PTY_COLUMNS = 120;
+export const PTY_ROWS = 40;
+
+/**
+ * Interactive TUI driven through a pseudo-terminal
+ */
+export class PtyClaudeCodeProcess implements ClaudeCodeProcess {
+  readonly backend = 'pty' as const;
+  private pty: IPty;
+
+  constructor(options: ClaudeCodeProcessOptions) {
+    this.pty = nodePtySpawn(options.binaryPath, options.args, {
+      name: 'xterm-256color',
+      cols: PTY_COLUMNS,
+      rows: PTY_ROWS,
+      cwd: options.cwd,
+      env: options.env as { [key: string]: string },
+    });
+  }
+
+  get pid(): number {
+    return this.pty.pid;
+  }
+
+  write(data: string): void {
+    this.pty.write(data);
+  }
+
+  sendMessage(text: string): void {
+    this.pty.write(text.endsWith('\n') ? text : `${text}\n`);
+  }
+
+  interrupt(): void {
+    this.pty.write('\x03');
+  }
+
+  answerPermission(_request: ClaudeCodePermissionRequest, decision: ClaudeCodePermissionDecision): void {
+    // Option 1 of the dialog is "Yes"; Esc declines and hands the turn back
+    this.pty.write(decision.behavior === 'allow' ? '1' : '\x1b');
+  }
+
+  requestExit(): void {
+    // The first Ctrl+C cancels the turn, the second one exits
+    this.pty.write('\x03');
+    setTimeout(() => {
+      try {
+        this.pty.write('\x03');
+      } catch {
+        // Already gone
+      }
+    }, 200);
+  }
+
+  kill(signal?: NodeJS.Signals): void {
+    this.pty.kill(signal);
+  }
+
+  pause(): void {
+    this.pty.pause();
+  }
+
+  resume(): void {
+    this.pty.resume();
+  }
+
+  onData(listener: (data: string) => void): () => void {
+    const disposable = this.pty.onData(listener);
+    return () => disposable.dispose();
+  }
+
+  onMessage(_listener: (message: Record<string, unknown>) => void): void {
+    // The TUI has no structured message stream
+  }
+
+  onExit(listener: (exit: ClaudeCodeProcessExit) => void): void {
+    this.pty.onExit(({ exitCode, signal }) => listener({ exitCode, signal }));
+  }
+}
+
+/**
+ * Headless CLI speaking newline-delimited JSON on stdin/stdout
+ */
+export class StreamJsonClaudeCodeProcess implements ClaudeCodeProcess {
+  readonly backend = 'stream-json' as const;
+  private child: ChildProcessWithoutNullStreams;
+  private lineBuffer: string = '';
+  private stderrTail: string = '';
+  private requestCounter: number = 0;
+  private messageListeners: Array<(message: Record<string, unknown>) => void> = [];
+
+  constructor(options: ClaudeCodeProcessOptions) {
+    const args = [
+      '--print',
+      '--verbose',
+      '--input-format',
+      'stream-json',
+      '--output-format',
+      'stream-json',
+      ...options.args,
+    ];
+
+    this.child = childSpawn(options.binaryPath, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Own process group, so the whole tree can be signalled at once
+      detached: true,
+    });
+
+    this.child.stdout.setEncoding('utf-8');
+    this.child.stdout.on('data', (chunk: string) => this.decode(chunk));
+    this.child.stderr.setEncoding('utf-8');
+    this.child.stderr.on('data', (chunk: string) => {
+      this.stderrTail = (this.stderrTail + chunk).slice(-2000);
+    });
+
+    // A CLI that closed stdin or died fails writes with an async EPIPE; keep
+    // it for the exit report instead of crashing the gateway
+    this.child.stdin.on('error', (error: Error) => {
+      this.stderrTail = `${this.stderrTail}${this.stderrTail ? '\n' : ''}stdin: ${error.message}`.slice(-2000);
+    });
+
+    // The details of a failed launch only arrive with the async 'error' event
+    this.child.on('error', () => undefined);
+
+    // No pid means nothing started (missing binary or workdir); there is nothing to track or signal
+    if (this.child.pid === undefined) {
+      throw new Error(`Failed to start Claude Code: ${options.binaryPath} (in ${options.cwd})`);
+    }
+  }
+
+  get pid(): number {
+    return this.child.pid as number;
+  }
+
+  write(data: string): void {
+    if (this.child.stdin.writable) {
+      this.child.stdin.write(data);
+    }
+  }
+
+  sendMessage(text: string): void {
+    const message = {
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'text', text }],
+      },
+    };
+    this.write(`${JSON.stringify(message)}\n`);
+  }
+
+  interrupt(): void {
+    const request = {
+      type: 'control_request',
+      request_id: `interrupt-${++this.requestCounter}`,
+      request: { subtype: 'interrupt' },
+    };
+    this.write(`${JSON.stringify(request)}\n`);
+  }
+
+  answerPermission(request: ClaudeCodePermissionRequest, decision: ClaudeCodePermissionDecision): void {
+    const response = {
+      type: 'control_response',
+      response: {
+        subtype: 'success',
+        request_id: request.requestId,
+        response: decision.behavior === 'allow'
+          ? { behavior: 'allow', updatedInput: request.input }
+          : { behavior: 'deny', message: decision.message || 'Permission denied' },
+      },
+    };
+    this.write(`${JSON.stringify(response)}\n`);
+  }
+
+  requestExit(): void {
+    // Print mode exits once its input ends
+    this.interrupt();
+    this.child.stdin.end();
+  }
+
+  kill(signal?: NodeJS.Signals): void {
+    this.child.kill(signal);
+  }
+
+  pause(): void {
+    this.child.stdout.pause();
+  }
+
+  resume(): void {
+    this.child.stdout.resume();
+  }
+
+  onData(listener: (data: string) => void): () => void {
+    this.child.stdout.on('data', listener);
+    return () => {
+      this.child.stdout.off('data', listener);
+    };
+  }
+
+  onMessage(listener: (message: Record<string, unknown>) => void): void {
+    this.messageListeners.push(listener);
+  }
+
+  onExit(listener: (exit: ClaudeCodeProcessExit) => void): void {
+    let reported = false;
+    const report = (exit: ClaudeCodeProcessExit) => {
+      if (reported) return;
+      reported = true;
+      listener(exit);
+    };
+
+    this.child.on('close', (code, signal) => {
+      report({ exitCode: code ?? 1, signal: signal ?? undefined, stderr: this.stderrTail || undefined });
+    });
+    this.child.on('error', (error) => report({ exitCode: 127, stderr: error.message }));
+  }
+
+  private decode(chunk: string): void {
+    this.lineBuffer += chunk;
+    const lines = this.lineBuffer.split('\n');
+    this.lineBuffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(trimmed);
+      } catch {
+        // Non-JSON noise on stdout is still delivered through onData
+        continue;
+      }
+
+      // Protocol messages are objects; a stray null, number or array is noise too
+      if (!isMessage(message)) continue;
+
+      for (const listener of this.messageListeners) {
+        listener(message);
+      }
+    }
+  }
+}
+
+/**
+ * Start a Claude Code process on the requested backend
+ */
+export function createClaudeCodeProcess(
+  backend: ClaudeCodeBackend,
+  options: ClaudeCodeProcessOptions
+): ClaudeCodeProcess {
+  return backend === 'stream-json'
+    ? new StreamJsonClaudeCodeProcess(options)
+    : new PtyClaudeCodeProcess(options);
+}
+
+function isMessage(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
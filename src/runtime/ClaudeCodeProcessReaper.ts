@@ -0,0 +1,192 @@
+/**
+ * Claude Code Process Reaper
+ * Terminates a session's whole process tree with SIGTERM -> SIGKILL escalation,
+ * and keeps a pid registry so processes left behind by a crashed gateway can be
+ * found and reaped on the next startup
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  isProcessAlive,
+  isValidPid,
+  listDescendants,
+  listProcessGroup,
+  readProcessCommand,
+  signalProcessTree,
+  waitForProcessExit,
+  waitForProcessTreeExit,
+} from '../utils/processTree';
+
+export interface ProcessReaperOptions {
+  /** JSON file recording the processes this gateway started */
+  registryPath: string;
+
+  /** Binary name used to recognise Claude Code processes (e.g. 'claude') */
+  binaryName: string;
+
+  /** Time allowed for a graceful exit before SIGTERM (default 3000) */
+  stopGracePeriodMs?: number;
+
+  /** Time allowed after SIGTERM before SIGKILL (default 5000) */
+  killGracePeriodMs?: number;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+interface RegistryEntry {
+  /** Claude Code pid, which is also its process group id */
+  pid: number;
+  sessionId: string;
+  gatewayPid: number;
+  startedAt: string;
+}
+
+const DEFAULT_STOP_GRACE_PERIOD_MS = 3000;
+const DEFAULT_KILL_GRACE_PERIOD_MS = 5000;
+
+/**
+ * Process-tree termination and orphan reaping for Claude Code sessions
+ */
+export class ClaudeCodeProcessReaper {
+  private registryPath: string;
+  private binaryName: string;
+  private stopGracePeriodMs: number;
+  private killGracePeriodMs: number;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+
+  constructor(options: ProcessReaperOptions) {
+    this.registryPath = options.registryPath;
+    this.binaryName = options.binaryName;
+    this.stopGracePeriodMs = options.stopGracePeriodMs ?? DEFAULT_STOP_GRACE_PERIOD_MS;
+    this.killGracePeriodMs = options.killGracePeriodMs ?? DEFAULT_KILL_GRACE_PERIOD_MS;
+    this.logger = options.logger || this.defaultLogger;
+  }
+
+  /**
+   * Record a process started by this gateway
+   */
+  register(pid: number, sessionId: string): void {
+    if (!isValidPid(pid)) return;
+    this.updateRegistry((entries) => [
+      ...entries.filter((entry) => entry.pid !== pid),
+      { pid, sessionId, gatewayPid: process.pid, startedAt: new Date().toISOString() },
+    ]);
+  }
+
+  /**
+   * Forget a process once it and its tree are gone
+   */
+  unregister(pid: number): void {
+    this.updateRegistry((entries) => entries.filter((entry) => entry.pid !== pid));
+  }
+
+  /**
+   * Terminate a process and everything it started.
+   * Without force, `requestExit` is called first and given the stop grace
+   * period; whatever is left gets SIGTERM, then SIGKILL after the kill grace period.
+   */
+  async terminate(pid: number, options: { force?: boolean; requestExit?: () => void } = {}): Promise<void> {
+    // A process that never started has no pid; signalling 0 would hit the gateway's own group
+    if (!isValidPid(pid)) return;
+
+    // Snapshot descendants now: once the leader dies they are reparented and untraceable
+    const tree = listDescendants(pid);
+
+    if (!options.force && options.requestExit) {
+      options.requestExit();
+      await waitForProcessExit(pid, this.stopGracePeriodMs);
+    }
+
+    await this.escalate(pid, tree, options.force);
+  }
+
+  /**
+   * Reap processes registered by gateways that are no longer running
+   */
+  async reapOrphans(): Promise<number> {
+    const orphans = this.readRegistry().filter(
+      (entry) => entry.gatewayPid !== process.pid && !isProcessAlive(entry.gatewayPid)
+    );
+
+    let reaped = 0;
+    for (const entry of orphans) {
+      if (!isValidPid(entry.pid)) {
+        this.unregister(entry.pid);
+        continue;
+      }
+
+      const leaderAlive = isProcessAlive(entry.pid);
+      const command = leaderAlive ? readProcessCommand(entry.pid) : undefined;
+
+      // A live pid running something else means the pid was reused; leave it alone
+      if (leaderAlive && !(command && command.includes(this.binaryName))) {
+        this.unregister(entry.pid);
+        continue;
+      }
+
+      const members = listProcessGroup(entry.pid);
+      if (leaderAlive || members.length > 0) {
+        this.logger('warn', 'Reaping orphaned Claude Code processes', {
+          sessionId: entry.sessionId,
+          pid: entry.pid,
+          processes: members.length || 1,
+        });
+        await this.escalate(entry.pid, [...members, ...listDescendants(entry.pid)], false);
+        reaped++;
+      }
+
+      this.unregister(entry.pid);
+    }
+
+    return reaped;
+  }
+
+  // Private methods
+
+  private async escalate(pid: number, tree: number[], force?: boolean): Promise<void> {
+    if (!isValidPid(pid)) return;
+
+    const pids = [pid, ...tree];
+    if (await waitForProcessTreeExit(pid, pids, 0)) return;
+
+    if (!force) {
+      signalProcessTree(pid, pids, 'SIGTERM');
+      if (await waitForProcessTreeExit(pid, pids, this.killGracePeriodMs)) return;
+
+      this.logger('warn', 'Process tree ignored SIGTERM, sending SIGKILL', { pid });
+    }
+
+    signalProcessTree(pid, pids, 'SIGKILL');
+    await waitForProcessTreeExit(pid, pids, 1000);
+  }
+
+  private readRegistry(): RegistryEntry[] {
+    try {
+      return JSON.parse(fs.readFileSync(this.registryPath, 'utf-8'));
+    } catch {
+      return [];
+    }
+  }
+
+  private updateRegistry(update: (entries: RegistryEntry[]) => RegistryEntry[]): void {
+    try {
+      fs.mkdirSync(path.dirname(this.registryPath), { recursive: true });
+      const tmpFile = `${this.registryPath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(update(this.readRegistry()), null, 2));
+      fs.renameSync(tmpFile, this.registryPath);
+    } catch (error) {
+      this.logger('warn', 'Failed to update process registry', {
+        registryPath: this.registryPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
@@ -3,10 +3,26 @@
  * Manages spawning and lifecycle of Claude Code processes for OpenClaw agents
  */
 
-import { spawn as nodePtySpawn, IPty } from 'node-pty';
 import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeCodeProcess, ClaudeCodeProcessExit, createClaudeCodeProcess } from './ClaudeCodeProcess';
+import { RestartPolicy } from './RestartPolicy';
+import { ClaudeCodeProcessReaper } from './ClaudeCodeProcessReaper';
+import { ClaudeCodeSandboxManager } from './ClaudeCodeSandboxManager';
+import { ClaudeBinaryRequirements, ClaudeBinaryResolver } from './ClaudeBinaryResolver';
+import { getAgentDataDir } from './agentPaths';
+import { buildMcpConfig } from './mcpConfig';
+import { compilePersonality, DEFAULT_PERSONALITY_MAX_CHARS } from './personality';
+import { ClaudeSessionLocator, SessionFileSnapshot } from './ClaudeSessionLocator';
+import { stripAnsi } from '../utils/ansi';
 import {
   AgentConfig,
+  ClaudeCodeBackend,
+  ClaudeCodeInputKind,
+  ClaudeCodePermissionDecision,
+  ClaudeCodePermissionRequest,
+  ClaudeCodeSandbox,
   ClaudeCodeSpawnOptions,
   ClaudeCodeEvent,
   ClaudeCodeSession,
@@ -18,28 +34,134 @@ export interface SpawnerOptions {
 
   /** Logger function */
   logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+
+  /** Locator for Claude Code session files (PTY backend) */
+  sessionLocator?: ClaudeSessionLocator;
+
+  /** Sandbox manager for isolated sessions */
+  sandboxes?: ClaudeCodeSandboxManager;
+
+  /** Finds and checks the Claude Code binary */
+  binaryResolver?: ClaudeBinaryResolver;
 }
 
+/** How long to watch for a PTY session's transcript file to appear */
+const SESSION_ID_DISCOVERY_TIMEOUT_MS = 60000;
+
+/** Default time allowed for the TUI to show its input prompt */
+const DEFAULT_READY_TIMEOUT_MS = 30000;
+
+/** The TUI's input box (`│ > `), its `❯` prompt, or the footer hint under it */
+const DEFAULT_READY_PATTERN = /(?:^|[\s│|])[>❯][ \u00a0]|\? for shortcuts/m;
+
+/** CLI flags a session may depend on, and the setting that needs each */
+const FLAG_PURPOSES: Record<string, string> = {
+  '--mcp-config': 'mcpServers',
+  '--strict-mcp-config': 'strictMcpConfig',
+  '--allowedTools': 'allowedTools',
+  '--disallowedTools': 'disallowedTools',
+  '--add-dir': 'additionalDirectories',
+  '--append-system-prompt': 'appendSystemPrompt/personality',
+  '--max-turns': 'maxTurns',
+  '--permission-prompt-tool': 'permissions (outside bypassPermissions)',
+};
+
 /**
  * Manages Claude Code process spawning and communication
  */
 export class ClaudeCodeProcessSpawner extends EventEmitter {
   private agent: AgentConfig;
   private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
-  private activeSessions: Map<string, { pty: IPty; session: ClaudeCodeSession }>;
+  private activeSessions: Map<string, { process: ClaudeCodeProcess; session: ClaudeCodeSession }>;
+  private knownSessions: Map<string, { claudeSessionId?: string; workdir: string }>;
+  private sessionLocator: ClaudeSessionLocator;
+  /** Workdir -> session ID discovery running there; one at a time so two sessions never claim one file */
+  private discoveries: Map<string, Promise<void>>;
+  private restartPolicy: RestartPolicy;
+  private stopping: Set<string>;
+  private respawning: Set<string>;
+  private pendingRestarts: Map<string, { session: ClaudeCodeSession; timer: NodeJS.Timeout }>;
+  private reaper: ClaudeCodeProcessReaper;
+  private spawnOptions: Map<string, ClaudeCodeSpawnOptions>;
+  /** Session ID -> number of readers that asked for its output to be paused */
+  private outputPauses: Map<string, number>;
+  private sandboxes: ClaudeCodeSandboxManager;
+  private binaryResolver: ClaudeBinaryResolver;
 
   constructor(options: SpawnerOptions) {
     super();
     this.agent = options.agent;
     this.logger = options.logger || this.defaultLogger;
     this.activeSessions = new Map();
+    this.knownSessions = new Map();
+    this.restartPolicy = new RestartPolicy(options.agent.claudeCode?.restartPolicy);
+    this.stopping = new Set();
+    this.respawning = new Set();
+    this.pendingRestarts = new Map();
+    this.spawnOptions = new Map();
+    this.outputPauses = new Map();
+    this.reaper = new ClaudeCodeProcessReaper({
+      registryPath: path.join(getAgentDataDir(options.agent), 'pids.json'),
+      binaryName: path.basename(options.agent.claudeCode?.binaryPath || 'claude'),
+      stopGracePeriodMs: options.agent.claudeCode?.stopGracePeriodMs,
+      killGracePeriodMs: options.agent.claudeCode?.killGracePeriodMs,
+      logger: this.logger,
+    });
+    this.sandboxes = options.sandboxes || new ClaudeCodeSandboxManager({
+      directory: path.join(getAgentDataDir(options.agent), 'sandboxes'),
+      excludedDirectories: [getAgentDataDir(options.agent)],
+      logger: this.logger,
+    });
+    this.binaryResolver = options.binaryResolver || new ClaudeBinaryResolver({
+      binaryPath: options.agent.claudeCode?.binaryPath,
+      minVersion: options.agent.claudeCode?.minVersion,
+      env: { ...process.env, ...options.agent.claudeCode?.env },
+      logger: this.logger,
+    });
+    // Per-session MCP config and task options live exactly as long as the session
+    this.on('stopped', (event: ClaudeCodeEvent) => {
+      this.removeMcpConfig(event.sessionId);
+      this.spawnOptions.delete(event.sessionId);
+      this.outputPauses.delete(event.sessionId);
+    });
+    // A respawned process starts out reading
+    this.on('restarting', (event: ClaudeCodeEvent) => {
+      this.outputPauses.delete(event.sessionId);
+    });
+
+    this.discoveries = new Map();
+    this.sessionLocator = options.sessionLocator || new ClaudeSessionLocator({
+      configDir: options.agent.claudeCode?.env?.CLAUDE_CONFIG_DIR,
+    });
+  }
+
+  /**
+   * ID of the agent this spawner belongs to
+   */
+  get agentId(): string {
+    return this.agent.id;
   }
 
   /**
-   * Spawn a new Claude Code session
+   * Default working directory for new sessions
    */
-  async spawn(options: ClaudeCodeSpawnOptions): Promise<ClaudeCodeSession> {
-    const sessionId = this.generateSessionId();
+  get workspace(): string {
+    return this.agent.workspace;
+  }
+
+  /**
+   * Generate a new wrapper session ID for this agent
+   */
+  generateSessionId(): string {
+    return `cc-${this.agent.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Spawn a new Claude Code session. A reserved session (e.g. one that was
+   * queued) is started in place so callers holding it see it come alive.
+   */
+  async spawn(options: ClaudeCodeSpawnOptions, reserved?: ClaudeCodeSession): Promise<ClaudeCodeSession> {
+    const sessionId = reserved?.sessionId || this.generateSessionId();
     const claudeConfig = this.agent.claudeCode || {};
 
     this.logger('info', 'Spawning Claude Code session', {
@@ -48,61 +170,130 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
       task: options.task.substring(0, 100),
     });
 
+    // Map a wrapper session ID to the CLI's own session and original workdir
+    let resumeClaudeSessionId: string | undefined;
+    let resumeWorkdir: string | undefined;
+    if (options.resumeSessionId) {
+      resumeClaudeSessionId = this.resolveClaudeSessionId(options.resumeSessionId);
+      if (!resumeClaudeSessionId) {
+        throw new Error(
+          `Cannot resume ${options.resumeSessionId}: its Claude Code session ID is not known`
+        );
+      }
+      resumeWorkdir = this.knownSessions.get(options.resumeSessionId)?.workdir;
+    }
+
     // Build command arguments
-    const args = this.buildCommandArgs(options);
-    const binaryPath = claudeConfig.binaryPath || '/opt/homebrew/bin/claude';
-    const workdir = options.continue ? claudeConfig.workdir || this.agent.workspace : this.agent.workspace;
-
-    // Prepare environment variables
-    const env = {
-      ...process.env,
-      ...claudeConfig.env,
-    };
+    const backend: ClaudeCodeBackend = options.backend || claudeConfig.backend || 'pty';
+    const args = this.buildCommandArgs({ ...options, resumeSessionId: resumeClaudeSessionId }, backend);
+    // An explicit per-task choice wins over the agent's default
+    const wantsTeams = options.enableTeams ?? !!claudeConfig.agentTeams;
 
-    // Enable agent teams if configured
-    if (claudeConfig.agentTeams || options.enableTeams) {
-      env.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS = '1';
-    }
+    // Refuse to start on a binary that can't honour the session's settings (teams are dropped instead)
+    const { binaryPath, agentTeams: enableTeams } = await this.binaryResolver.ensure(
+      this.binaryRequirements(args, backend, wantsTeams)
+    );
+    args.push(...this.writeMcpConfig(sessionId));
+    let workdir = options.workdir
+      || resumeWorkdir
+      || (options.continue ? claudeConfig.workdir || this.agent.workspace : this.agent.workspace);
 
-    // Spawn PTY process
-    const pty = nodePtySpawn(binaryPath, args, {
-      name: 'xterm-256color',
-      cols: 120,
-      rows: 40,
-      cwd: workdir,
-      env,
-    });
+    let sandbox: ClaudeCodeSandbox | undefined;
+    let child: ClaudeCodeProcess;
+    let session: ClaudeCodeSession;
+    try {
+      // Fresh sessions can get a private working copy; resumed ones go back to where they ran
+      const isolation = options.isolation ?? claudeConfig.isolation ?? 'none';
+      if (isolation !== 'none' && !options.resumeSessionId && !options.continue) {
+        sandbox = await this.sandboxes.create(sessionId, workdir, isolation);
+        workdir = sandbox.workdir;
+      }
 
-    // Create session object
-    const session: ClaudeCodeSession = {
-      sessionId,
-      agentId: this.agent.id,
-      pid: pty.pid,
-      workdir,
-      task: options.task,
-      startedAt: new Date(),
-      lastActivity: new Date(),
-      state: 'starting',
-      outputBuffer: [],
-    };
+      // Prepare environment variables
+      const env = {
+        ...process.env,
+        ...claudeConfig.env,
+      };
+
+      // Enable agent teams if configured
+      if (enableTeams) {
+        env.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS = '1';
+      }
+
+      // The TUI never prints its session ID, so watch for its transcript file instead
+      const sessionFiles = backend === 'pty' ? this.sessionLocator.snapshot(workdir) : undefined;
+
+      // Spawn the process on the selected backend
+      child = createClaudeCodeProcess(backend, {
+        binaryPath,
+        args,
+        cwd: workdir,
+        env,
+      });
 
-    // Store session
-    this.activeSessions.set(sessionId, { pty, session });
+      // Create session object
+      session = Object.assign(reserved || ({} as ClaudeCodeSession), {
+        sessionId,
+        agentId: this.agent.id,
+        pid: child.pid,
+        backend,
+        workdir,
+        task: options.task,
+        startedAt: new Date(),
+        lastActivity: new Date(),
+        state: 'starting' as const,
+        outputBuffer: [],
+        queuePosition: undefined,
+        maxRuntimeMs: options.maxRuntimeMs ?? reserved?.maxRuntimeMs,
+        sandbox: sandbox ?? reserved?.sandbox,
+      });
+
+      // Store session
+      this.activeSessions.set(sessionId, { process: child, session });
+      this.reaper.register(child.pid, sessionId);
+      this.knownSessions.set(sessionId, { workdir });
+      this.spawnOptions.set(sessionId, options);
+
+      // Set up event handlers
+      this.setupProcessHandlers(child, session);
 
-    // Set up event handlers
-    this.setupPtyHandlers(pty, session);
+      if (resumeClaudeSessionId) {
+        this.setClaudeSessionId(session, resumeClaudeSessionId);
+      }
+      if (sessionFiles) {
+        this.discoverClaudeSessionId(session, sessionFiles);
+      }
 
-    // Send initial task if not resuming
-    if (!options.resumeSessionId && !options.continue) {
-      // Wait a bit for Claude Code to initialize
-      await this.sleep(1000);
-      this.sendTask(sessionId, options.task);
+      // Claude Code forms a team when asked to; ask a fresh session for the size the caller wants
+      const task = enableTeams && options.teammates && !options.resumeSessionId && !options.continue
+        ? `${options.task}\n\nCreate an agent team with ${options.teammates} teammates to work on this.`
+        : options.task;
+
+      if (backend === 'stream-json') {
+        // Print mode has no prompt to wait for and always needs a first turn
+        this.sendTask(sessionId, task);
+      } else {
+        // Wait for the input prompt so keystrokes aren't lost during startup
+        await this.waitForReady(child, session);
+
+        // Send initial task if not resuming
+        if (!options.resumeSessionId && !options.continue) {
+          this.sendTask(sessionId, task);
+        }
+      }
+    } catch (error) {
+      // A failed launch leaves nothing behind; a respawn keeps its session's sandbox, as it never created one here
+      this.removeMcpConfig(sessionId);
+      if (sandbox) {
+        await this.sandboxes.resolve(sessionId, 'discard').catch(() => undefined);
+      }
+      throw error;
     }
 
     this.emit('started', {
       type: 'started',
       sessionId,
-      pid: pty.pid,
+      pid: child.pid,
     } as ClaudeCodeEvent);
 
     return session;
@@ -118,7 +309,87 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
     }
 
     this.logger('debug', 'Writing to session', { sessionId, input: input.substring(0, 100) });
-    sessionData.pty.write(input);
+    sessionData.process.write(input);
+    sessionData.session.lastActivity = new Date();
+    this.emitInput(sessionId, 'write', input);
+  }
+
+  /**
+   * Send a user message to a running session in the form its backend expects
+   */
+  sendMessage(sessionId: string, message: string): void {
+    const sessionData = this.activeSessions.get(sessionId);
+    if (!sessionData) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    this.logger('debug', 'Sending message to session', { sessionId, message: message.substring(0, 100) });
+    sessionData.process.sendMessage(message);
+    sessionData.session.lastActivity = new Date();
+    this.emitInput(sessionId, 'message', message);
+  }
+
+  /**
+   * Interrupt the current turn of a running session
+   */
+  interrupt(sessionId: string): void {
+    const sessionData = this.activeSessions.get(sessionId);
+    if (!sessionData) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    sessionData.process.interrupt();
+    sessionData.session.lastActivity = new Date();
+    this.emitInput(sessionId, 'interrupt', '');
+  }
+
+  /**
+   * Stop reading a session's output until every pauseOutput() call is
+   * matched by resumeOutput(); the CLI blocks once its output pipe fills
+   */
+  pauseOutput(sessionId: string): void {
+    const sessionData = this.activeSessions.get(sessionId);
+    if (!sessionData) return;
+
+    const pauses = (this.outputPauses.get(sessionId) || 0) + 1;
+    this.outputPauses.set(sessionId, pauses);
+    if (pauses === 1) {
+      this.logger('debug', 'Pausing session output', { sessionId });
+      sessionData.process.pause();
+    }
+  }
+
+  /**
+   * Undo one pauseOutput()
+   */
+  resumeOutput(sessionId: string): void {
+    const pauses = this.outputPauses.get(sessionId);
+    if (!pauses) return;
+
+    if (pauses > 1) {
+      this.outputPauses.set(sessionId, pauses - 1);
+      return;
+    }
+    this.outputPauses.delete(sessionId);
+    this.logger('debug', 'Resuming session output', { sessionId });
+    this.activeSessions.get(sessionId)?.process.resume();
+  }
+
+  /**
+   * Answer a permission request the session is waiting on
+   */
+  answerPermission(sessionId: string, request: ClaudeCodePermissionRequest, decision: ClaudeCodePermissionDecision): void {
+    const sessionData = this.activeSessions.get(sessionId);
+    if (!sessionData) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    this.logger('debug', 'Answering permission request', {
+      sessionId,
+      toolName: request.toolName,
+      behavior: decision.behavior,
+    });
+    sessionData.process.answerPermission(request, decision);
     sessionData.session.lastActivity = new Date();
   }
 
@@ -126,6 +397,16 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
    * Stop a running session
    */
   async stop(sessionId: string, force: boolean = false): Promise<void> {
+    const pending = this.pendingRestarts.get(sessionId);
+    if (pending) {
+      // Waiting out a restart backoff: just don't come back
+      clearTimeout(pending.timer);
+      this.pendingRestarts.delete(sessionId);
+      pending.session.state = 'stopped';
+      this.emit('stopped', { type: 'stopped', sessionId } as ClaudeCodeEvent);
+      return;
+    }
+
     const sessionData = this.activeSessions.get(sessionId);
     if (!sessionData) {
       this.logger('warn', 'Attempted to stop non-existent session', { sessionId });
@@ -133,31 +414,58 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
     }
 
     this.logger('info', 'Stopping Claude Code session', { sessionId, force });
+    this.stopping.add(sessionId);
 
-    if (force) {
-      sessionData.pty.kill('SIGKILL');
-    } else {
-      // Send Ctrl+C to gracefully stop
-      sessionData.pty.write('\x03');
+    // Graceful exit first (unless forced), then SIGTERM/SIGKILL for the whole process tree
+    await this.reaper.terminate(sessionData.process.pid, {
+      force,
+      requestExit: () => sessionData.process.requestExit(),
+    });
 
-      // Wait for graceful shutdown, then force kill
-      await this.sleep(3000);
-      if (this.activeSessions.has(sessionId)) {
-        sessionData.pty.kill('SIGTERM');
-      }
+    // The exit handler normally reports the stop; cover a process that never reported exiting
+    if (this.activeSessions.get(sessionId)?.process === sessionData.process) {
+      this.activeSessions.delete(sessionId);
+      this.stopping.delete(sessionId);
+      sessionData.session.state = 'stopped';
+
+      this.emit('stopped', {
+        type: 'stopped',
+        sessionId,
+      } as ClaudeCodeEvent);
     }
+  }
 
-    sessionData.session.state = 'stopped';
-    this.activeSessions.delete(sessionId);
+  /**
+   * Reap Claude Code processes left behind by a previous gateway that crashed
+   */
+  async reapOrphans(): Promise<number> {
+    return this.reaper.reapOrphans();
+  }
 
-    this.emit('stopped', {
-      type: 'stopped',
-      sessionId,
-    } as ClaudeCodeEvent);
+  /**
+   * Resolve a wrapper session ID (or a raw Claude Code session UUID) to the
+   * session ID the CLI understands for --resume
+   */
+  resolveClaudeSessionId(sessionId: string): string | undefined {
+    const known = this.knownSessions.get(sessionId);
+    if (known) {
+      return known.claudeSessionId;
+    }
+    return ClaudeSessionLocator.isClaudeSessionId(sessionId) ? sessionId : undefined;
   }
 
   /**
-   * Restart a session
+   * Remember a session from a previous runtime so it can be resumed by wrapper ID
+   */
+  registerKnownSession(sessionId: string, workdir: string, claudeSessionId?: string): void {
+    if (!this.activeSessions.has(sessionId)) {
+      this.knownSessions.set(sessionId, { claudeSessionId, workdir });
+    }
+  }
+
+  /**
+   * Restart a session, reconnecting to the same conversation when its
+   * Claude Code session ID is known
    */
   async restart(sessionId: string): Promise<ClaudeCodeSession> {
     const sessionData = this.activeSessions.get(sessionId);
@@ -167,14 +475,28 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
 
     this.logger('info', 'Restarting Claude Code session', { sessionId });
 
-    const { task } = sessionData.session;
+    const { task, backend, workdir, claudeSessionId, sandbox } = sessionData.session;
+    const taskOptions = this.taskOptions(sessionId);
     await this.stop(sessionId, true);
 
-    // Respawn with same task
-    return this.spawn({
-      task,
-      continue: false,
+    // The new session carries on in the same sandbox, if any
+    if (!claudeSessionId) {
+      // Nothing to reconnect to yet; respawn with same task
+      const fresh = await this.spawn({ ...taskOptions, task, continue: false, backend, workdir, isolation: 'none' });
+      fresh.sandbox = sandbox;
+      return fresh;
+    }
+
+    const session = await this.spawn({
+      ...taskOptions,
+      task: 'Continue',
+      resumeSessionId: claudeSessionId,
+      backend,
+      workdir,
     });
+    session.task = task;
+    session.sandbox = sandbox;
+    return session;
   }
 
   /**
@@ -182,14 +504,17 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
    */
   getSession(sessionId: string): ClaudeCodeSession | undefined {
     const sessionData = this.activeSessions.get(sessionId);
-    return sessionData?.session;
+    return sessionData?.session || this.pendingRestarts.get(sessionId)?.session;
   }
 
   /**
-   * Get all active sessions for this agent
+   * Get all active sessions for this agent (including ones waiting to restart)
    */
   getAllSessions(): ClaudeCodeSession[] {
-    return Array.from(this.activeSessions.values()).map((sd) => sd.session);
+    return [
+      ...Array.from(this.activeSessions.values()).map((sd) => sd.session),
+      ...Array.from(this.pendingRestarts.values()).map((pending) => pending.session),
+    ];
   }
 
   /**
@@ -200,17 +525,16 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
       count: this.activeSessions.size,
     });
 
-    const stopPromises = Array.from(this.activeSessions.keys()).map((sessionId) =>
-      this.stop(sessionId, true)
-    );
+    const sessionIds = [...this.activeSessions.keys(), ...this.pendingRestarts.keys()];
+    const stopPromises = sessionIds.map((sessionId) => this.stop(sessionId, true));
 
     await Promise.all(stopPromises);
   }
 
   // Private methods
 
-  private setupPtyHandlers(pty: IPty, session: ClaudeCodeSession): void {
-    pty.onData((data: string) => {
+  private setupProcessHandlers(child: ClaudeCodeProcess, session: ClaudeCodeSession): void {
+    child.onData((data: string) => {
       session.lastActivity = new Date();
       session.outputBuffer.push(data);
 
@@ -219,8 +543,10 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
         session.outputBuffer.shift();
       }
 
-      // Update session state based on output patterns
-      if (session.state === 'starting' && data.includes('Claude Code')) {
+      // Stream-json is live as soon as it talks; the TUI waits for its prompt (see waitForReady)
+      if (session.state === 'starting' && child.backend === 'stream-json') {
+        session.state = 'running';
+      } else if (session.state === 'idle') {
         session.state = 'running';
       }
 
@@ -230,30 +556,474 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
         data,
       } as ClaudeCodeEvent);
 
-      this.logger('debug', 'PTY output', {
+      this.logger('debug', 'Process output', {
         sessionId: session.sessionId,
         output: data.substring(0, 200),
       });
     });
 
-    pty.onExit((exitCode) => {
+    child.onMessage((message) => {
+      if (typeof message.session_id === 'string' && message.session_id !== session.claudeSessionId) {
+        this.setClaudeSessionId(session, message.session_id);
+      }
+
+      if (message.type === 'system' && message.subtype === 'init' && Array.isArray(message.mcp_servers)) {
+        this.setMcpStatus(session, message.mcp_servers);
+      }
+
+      if (message.type === 'control_request') {
+        this.handleControlRequest(session, message);
+        return;
+      }
+
+      if (message.type !== 'result') return;
+
+      const result = typeof message.result === 'string' ? message.result : undefined;
+
+      if (message.is_error) {
+        this.emit('error', {
+          type: 'error',
+          sessionId: session.sessionId,
+          error: result || String(message.subtype || 'Claude Code reported an error'),
+        } as ClaudeCodeEvent);
+        return;
+      }
+
+      this.emit('completed', {
+        type: 'completed',
+        sessionId: session.sessionId,
+        result,
+      } as ClaudeCodeEvent);
+    });
+
+    child.onExit((exit) => {
       this.logger('info', 'Claude Code process exited', {
         sessionId: session.sessionId,
-        exitCode: exitCode.exitCode,
+        exitCode: exit.exitCode,
+        stderr: exit.stderr,
       });
 
-      session.state = 'stopped';
+      // A respawn under the same session ID already replaced this process
+      const current = this.activeSessions.get(session.sessionId);
+      if (current && current.process !== child) return;
+
+      const requested = this.stopping.delete(session.sessionId) || !current;
       this.activeSessions.delete(session.sessionId);
+      this.releaseProcessTree(child, requested);
+
+      // A failed respawn attempt is handled by respawn() itself
+      if (this.respawning.has(session.sessionId)) return;
 
+      // Dying during the very first startup is a spawn failure, not a crash to recover from
+      const startupFailure = session.state === 'starting' && !session.restartCount;
+      if (!requested && !startupFailure && this.handleUnexpectedExit(session, exit)) return;
+
+      if (session.state !== 'error') {
+        session.state = 'stopped';
+      }
       this.emit('stopped', {
         type: 'stopped',
         sessionId: session.sessionId,
-        exitCode: exitCode.exitCode,
+        exitCode: exit.exitCode,
       } as ClaudeCodeEvent);
     });
   }
 
-  private buildCommandArgs(options: ClaudeCodeSpawnOptions): string[] {
+  /**
+   * Requests the CLI makes of us; only tool permissions need an answer from outside
+   */
+  private handleControlRequest(session: ClaudeCodeSession, message: Record<string, unknown>): void {
+    const request = message.request as Record<string, unknown> | undefined;
+    if (!request || request.subtype !== 'can_use_tool' || typeof message.request_id !== 'string') {
+      this.logger('debug', 'Ignoring control request', { sessionId: session.sessionId, subtype: request?.subtype });
+      return;
+    }
+
+    const input = request.input;
+    this.emit('permission-request', {
+      type: 'permission-request',
+      sessionId: session.sessionId,
+      request: {
+        sessionId: session.sessionId,
+        toolName: String(request.tool_name ?? ''),
+        input: input && typeof input === 'object' ? (input as Record<string, unknown>) : {},
+        workdir: session.workdir,
+        requestId: message.request_id,
+      },
+    } as ClaudeCodeEvent);
+  }
+
+  /**
+   * Once the CLI is gone, make sure nothing it started outlives it
+   */
+  private releaseProcessTree(child: ClaudeCodeProcess, requested: boolean): void {
+    const cleanup = requested
+      ? Promise.resolve() // stop() is already escalating
+      : this.reaper.terminate(child.pid);
+
+    cleanup
+      .catch((error) => {
+        this.logger('warn', 'Failed to terminate leftover processes', {
+          pid: child.pid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => this.reaper.unregister(child.pid));
+  }
+
+  /**
+   * Apply the restart policy to an exit nobody asked for.
+   * Returns true when a restart was scheduled.
+   */
+  private handleUnexpectedExit(session: ClaudeCodeSession, exit: ClaudeCodeProcessExit): boolean {
+    const failed = RestartPolicy.isFailure(exit.exitCode, exit.signal);
+    if (failed) {
+      session.crashes = [...(session.crashes || []), { at: new Date(), exitCode: exit.exitCode, signal: exit.signal }];
+    }
+
+    if (!this.restartPolicy.appliesTo(failed)) {
+      return false;
+    }
+
+    const attempt = (session.restartCount || 0) + 1;
+    if (!this.restartPolicy.shouldRestart(failed, attempt)) {
+      this.giveUp(session, exit.exitCode);
+      return false;
+    }
+
+    const delayMs = this.restartPolicy.delayFor(attempt);
+    session.state = 'restarting';
+    session.restartCount = attempt;
+
+    this.logger('warn', 'Claude Code exited unexpectedly, restarting', {
+      sessionId: session.sessionId,
+      exitCode: exit.exitCode,
+      attempt,
+      delayMs,
+    });
+
+    this.emit('restarting', {
+      type: 'restarting',
+      sessionId: session.sessionId,
+      attempt,
+      delayMs,
+      exitCode: exit.exitCode,
+    } as ClaudeCodeEvent);
+
+    const timer = setTimeout(() => {
+      this.pendingRestarts.delete(session.sessionId);
+      this.respawn(session);
+    }, delayMs);
+    this.pendingRestarts.set(session.sessionId, { session, timer });
+
+    return true;
+  }
+
+  private async respawn(session: ClaudeCodeSession): Promise<void> {
+    const { task, startedAt, backend, workdir, claudeSessionId } = session;
+
+    this.respawning.add(session.sessionId);
+    try {
+      // Reconnect to the same conversation when we know it, otherwise start over
+      const taskOptions = this.taskOptions(session.sessionId);
+      await this.spawn(
+        claudeSessionId
+          ? { ...taskOptions, task: 'Continue', resumeSessionId: claudeSessionId, backend, workdir }
+          : { ...taskOptions, task, backend, workdir, isolation: 'none' },
+        session
+      );
+    } catch (error) {
+      this.logger('error', 'Claude Code restart attempt failed', {
+        sessionId: session.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      if (!this.handleUnexpectedExit(session, { exitCode: 1 })) {
+        session.state = 'error';
+        this.emit('stopped', {
+          type: 'stopped',
+          sessionId: session.sessionId,
+          exitCode: 1,
+        } as ClaudeCodeEvent);
+      }
+    } finally {
+      this.respawning.delete(session.sessionId);
+      session.task = task;
+      session.startedAt = startedAt;
+    }
+  }
+
+  private giveUp(session: ClaudeCodeSession, exitCode: number): void {
+    const attempts = session.restartCount || 0;
+    session.state = 'error';
+    session.error = `Claude Code kept exiting; gave up after ${attempts} restart attempt(s)`;
+
+    this.logger('error', 'Giving up on Claude Code session', {
+      sessionId: session.sessionId,
+      attempts,
+      exitCode,
+    });
+
+    this.emit('gave-up', {
+      type: 'gave-up',
+      sessionId: session.sessionId,
+      attempts,
+      exitCode,
+    } as ClaudeCodeEvent);
+  }
+
+  private waitForReady(child: ClaudeCodeProcess, session: ClaudeCodeSession): Promise<void> {
+    const claudeConfig = this.agent.claudeCode || {};
+    const timeoutMs = claudeConfig.readyTimeoutMs ?? DEFAULT_READY_TIMEOUT_MS;
+    const pattern = claudeConfig.readyPattern ? new RegExp(claudeConfig.readyPattern, 'm') : DEFAULT_READY_PATTERN;
+    const startedAt = Date.now();
+
+    return new Promise((resolve, reject) => {
+      let screen = '';
+      let settled = false;
+
+      const finish = (error?: string) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        unsubscribe();
+
+        if (!error) {
+          session.state = 'running';
+          this.logger('debug', 'Claude Code ready for input', {
+            sessionId: session.sessionId,
+            readyMs: Date.now() - startedAt,
+          });
+          resolve();
+          return;
+        }
+
+        session.state = 'error';
+        session.error = error;
+        this.logger('error', 'Claude Code failed to become ready', { sessionId: session.sessionId, error });
+
+        this.emit('error', {
+          type: 'error',
+          sessionId: session.sessionId,
+          error,
+        } as ClaudeCodeEvent);
+
+        if (this.activeSessions.has(session.sessionId)) {
+          // Settle only once the process is gone so its exit isn't mistaken for a crash
+          this.stopping.add(session.sessionId);
+          child.onExit(() => reject(new Error(error)));
+          child.kill('SIGKILL');
+        } else {
+          reject(new Error(error));
+        }
+      };
+
+      const unsubscribe = child.onData((data) => {
+        // Only the recent tail matters; the prompt is drawn last
+        screen = (screen + stripAnsi(data)).slice(-4000);
+        if (pattern.test(screen)) {
+          finish();
+        }
+      });
+
+      const timer = setTimeout(() => {
+        finish(`Claude Code did not show its input prompt within ${timeoutMs}ms`);
+      }, timeoutMs);
+
+      // The process may die during startup (bad flags, auth failure)
+      child.onExit(({ exitCode }) => {
+        finish(`Claude Code exited with code ${exitCode} before it was ready for input`);
+      });
+    });
+  }
+
+  private personalityPrompt(): string {
+    if (this.agent.claudeCode?.personality?.enabled === false) return '';
+
+    const personality = compilePersonality(this.agent);
+    if (personality.truncated) {
+      this.logger('warn', 'Agent personality exceeds its size cap and was truncated', {
+        agentId: this.agent.id,
+        files: personality.files,
+        maxChars: this.agent.claudeCode?.personality?.maxChars ?? DEFAULT_PERSONALITY_MAX_CHARS,
+      });
+    }
+    return personality.prompt;
+  }
+
+  /**
+   * Per-task overrides a session was started with, to carry over to restarts
+   */
+  private taskOptions(sessionId: string): Partial<ClaudeCodeSpawnOptions> {
+    const options = this.spawnOptions.get(sessionId);
+    if (!options) return {};
+
+    // Task, resume/continue, workdir, backend, isolation and priority only
+    // apply to the original launch
+    const overrides: Partial<ClaudeCodeSpawnOptions> = {
+      permissionMode: options.permissionMode,
+      model: options.model,
+      allowedTools: options.allowedTools,
+      disallowedTools: options.disallowedTools,
+      appendSystemPrompt: options.appendSystemPrompt,
+      includePersonality: options.includePersonality,
+      maxTurns: options.maxTurns,
+      additionalDirectories: options.additionalDirectories,
+      enableTeams: options.enableTeams,
+      teammates: options.teammates,
+      outputFormat: options.outputFormat,
+      maxRuntimeMs: options.maxRuntimeMs,
+    };
+    return Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * What the binary must support to run a session with these arguments
+   */
+  private binaryRequirements(args: string[], backend: ClaudeCodeBackend, enableTeams: boolean): ClaudeBinaryRequirements {
+    const claudeConfig = this.agent.claudeCode || {};
+    const flags: Record<string, string> = {};
+
+    for (const [flag, purpose] of Object.entries(FLAG_PURPOSES)) {
+      if (args.includes(flag)) flags[flag] = purpose;
+    }
+    if (backend === 'stream-json') {
+      flags['--input-format'] = "the 'stream-json' backend";
+    }
+    // The MCP flags are added after the check, once the config file is written
+    if (Object.keys(claudeConfig.mcpServers || {}).length > 0) {
+      flags['--mcp-config'] = FLAG_PURPOSES['--mcp-config'];
+    }
+    if (claudeConfig.strictMcpConfig) {
+      flags['--strict-mcp-config'] = FLAG_PURPOSES['--strict-mcp-config'];
+    }
+
+    return { flags, agentTeams: enableTeams ? 'agentTeams' : undefined };
+  }
+
+  /**
+   * Write the agent's MCP servers to a per-session config file.
+   * Returns the CLI flags pointing at it (none without mcpServers).
+   */
+  private writeMcpConfig(sessionId: string): string[] {
+    const claudeConfig = this.agent.claudeCode || {};
+    const servers = claudeConfig.mcpServers || {};
+    const args: string[] = [];
+
+    if (Object.keys(servers).length > 0) {
+      const file = this.mcpConfigPath(sessionId);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      // Headers and env may hold credentials
+      fs.writeFileSync(file, JSON.stringify(buildMcpConfig(servers), null, 2), { mode: 0o600 });
+      args.push('--mcp-config', file);
+    }
+
+    if (claudeConfig.strictMcpConfig) {
+      args.push('--strict-mcp-config');
+    }
+
+    return args;
+  }
+
+  private removeMcpConfig(sessionId: string): void {
+    try {
+      fs.rmSync(this.mcpConfigPath(sessionId), { force: true });
+    } catch (error) {
+      this.logger('warn', 'Failed to remove MCP config', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private mcpConfigPath(sessionId: string): string {
+    return path.join(getAgentDataDir(this.agent), 'mcp', `${sessionId}.json`);
+  }
+
+  private setMcpStatus(session: ClaudeCodeSession, reported: unknown[]): void {
+    session.mcpServers = reported
+      .filter((server): server is { name: string; status?: unknown } =>
+        !!server && typeof (server as { name?: unknown }).name === 'string')
+      .map((server) => ({
+        name: server.name,
+        status: typeof server.status === 'string' ? server.status : 'unknown',
+      }));
+
+    const failed = session.mcpServers.filter((server) => server.status !== 'connected');
+    this.logger(failed.length > 0 ? 'warn' : 'debug', 'MCP server status', {
+      sessionId: session.sessionId,
+      servers: session.mcpServers,
+    });
+
+    this.emit('mcp-status', {
+      type: 'mcp-status',
+      sessionId: session.sessionId,
+      servers: session.mcpServers,
+    } as ClaudeCodeEvent);
+  }
+
+  private setClaudeSessionId(session: ClaudeCodeSession, claudeSessionId: string): void {
+    session.claudeSessionId = claudeSessionId;
+    this.knownSessions.set(session.sessionId, { claudeSessionId, workdir: session.workdir });
+
+    this.logger('debug', 'Claude Code session ID captured', {
+      sessionId: session.sessionId,
+      claudeSessionId,
+    });
+
+    this.emit('session-id', {
+      type: 'session-id',
+      sessionId: session.sessionId,
+      claudeSessionId,
+    } as ClaudeCodeEvent);
+  }
+
+  private discoverClaudeSessionId(session: ClaudeCodeSession, before: SessionFileSnapshot): void {
+    const initialId = session.claudeSessionId;
+    const { workdir } = session;
+
+    // Sessions started together in one workdir take turns, each skipping the files already claimed
+    const discovery = (this.discoveries.get(workdir) || Promise.resolve())
+      .then(() => this.sessionLocator.waitForSession(
+        workdir,
+        before,
+        SESSION_ID_DISCOVERY_TIMEOUT_MS,
+        () => !this.activeSessions.has(session.sessionId),
+        (claudeSessionId) => this.isClaimedElsewhere(claudeSessionId, session.sessionId)
+      ))
+      .then((claudeSessionId) => {
+        if (claudeSessionId && claudeSessionId !== initialId) {
+          this.setClaudeSessionId(session, claudeSessionId);
+        } else if (!claudeSessionId && !initialId) {
+          this.logger('warn', 'Could not determine Claude Code session ID', {
+            sessionId: session.sessionId,
+          });
+        }
+      })
+      .catch((error) => {
+        this.logger('warn', 'Claude Code session ID discovery failed', {
+          sessionId: session.sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        if (this.discoveries.get(workdir) === discovery) {
+          this.discoveries.delete(workdir);
+        }
+      });
+    this.discoveries.set(workdir, discovery);
+  }
+
+  /**
+   * Whether another live session already owns a Claude Code session ID
+   */
+  private isClaimedElsewhere(claudeSessionId: string, sessionId: string): boolean {
+    const sessions = [...this.activeSessions.values(), ...this.pendingRestarts.values()];
+    return sessions.some(({ session }) =>
+      session.sessionId !== sessionId && session.claudeSessionId === claudeSessionId);
+  }
+
+  private buildCommandArgs(options: ClaudeCodeSpawnOptions, backend: ClaudeCodeBackend): string[] {
     const args: string[] = [];
     const claudeConfig = this.agent.claudeCode || {};
 
@@ -267,6 +1037,10 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
     // Permission mode
     const permissionMode = options.permissionMode || claudeConfig.permissionMode || 'bypassPermissions';
     args.push('--permission-mode', permissionMode);
+    if (permissionMode !== 'bypassPermissions' && backend === 'stream-json') {
+      // Ask us over the control channel instead of failing the tool call
+      args.push('--permission-prompt-tool', 'stdio');
+    }
 
     // Model selection
     const model = options.model || claudeConfig.model;
@@ -274,8 +1048,46 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
       args.push('--model', model);
     }
 
-    // Output format (default to text for interactive mode)
-    if (options.outputFormat) {
+    // Tool restrictions and scope (task values replace the agent's defaults)
+    const allowedTools = options.allowedTools ?? claudeConfig.allowedTools;
+    if (allowedTools && allowedTools.length > 0) {
+      args.push('--allowedTools', ...allowedTools);
+    }
+
+    const disallowedTools = options.disallowedTools ?? claudeConfig.disallowedTools;
+    if (disallowedTools && disallowedTools.length > 0) {
+      args.push('--disallowedTools', ...disallowedTools);
+    }
+
+    const additionalDirectories = options.additionalDirectories ?? claudeConfig.additionalDirectories;
+    if (additionalDirectories && additionalDirectories.length > 0) {
+      args.push('--add-dir', ...additionalDirectories);
+    }
+
+    // Personality first, then any extra instructions; the CLI takes a single --append-system-prompt
+    const systemPrompt = [
+      options.includePersonality !== false ? this.personalityPrompt() : '',
+      options.appendSystemPrompt ?? claudeConfig.appendSystemPrompt,
+    ].filter(Boolean).join('\n\n');
+    if (systemPrompt) {
+      args.push('--append-system-prompt', systemPrompt);
+    }
+
+    const maxTurns = options.maxTurns ?? claudeConfig.maxTurns;
+    if (maxTurns !== undefined) {
+      if (!Number.isInteger(maxTurns) || maxTurns < 1) {
+        throw new Error(`maxTurns must be a positive integer, got ${maxTurns}`);
+      }
+      if (backend === 'stream-json') {
+        args.push('--max-turns', String(maxTurns));
+      } else {
+        // The interactive TUI has no turn limit
+        this.logger('warn', 'maxTurns is only supported on the stream-json backend; ignoring it', { maxTurns });
+      }
+    }
+
+    // Output format (default to text for interactive mode; stream-json sets its own)
+    if (options.outputFormat && backend !== 'stream-json') {
       args.push('--output-format', options.outputFormat);
     }
 
@@ -288,20 +1100,22 @@ export class ClaudeCodeProcessSpawner extends EventEmitter {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    // Send the task followed by Enter
-    sessionData.pty.write(`${task}\n`);
+    // Send the task as the first user turn
+    sessionData.process.sendMessage(task);
+    this.emitInput(sessionId, 'message', task);
     this.logger('debug', 'Task sent to Claude Code', {
       sessionId,
       task: task.substring(0, 100),
     });
   }
 
-  private generateSessionId(): string {
-    return `cc-${this.agent.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private emitInput(sessionId: string, kind: ClaudeCodeInputKind, data: string): void {
+    this.emit('input', {
+      type: 'input',
+      sessionId,
+      kind,
+      data,
+    } as ClaudeCodeEvent);
   }
 
   private defaultLogger(level: string, message: string, meta?: any): void {
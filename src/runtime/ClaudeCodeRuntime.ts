@@ -5,38 +5,120 @@
  */
 
 import { EventEmitter } from 'events';
+import * as path from 'path';
 import { ClaudeCodeProcessSpawner } from './ClaudeCodeProcessSpawner';
-import { ClaudeCodeCommunicator } from './ClaudeCodeCommunicator';
+import { ClaudeCodeCommunicator, ParsedOutput } from './ClaudeCodeCommunicator';
+import { ClaudeCodeSessionScheduler } from './ClaudeCodeSessionScheduler';
+import { ClaudeCodeSessionStore } from './ClaudeCodeSessionStore';
+import { ClaudeCodeTranscriptStore } from './ClaudeCodeTranscriptStore';
+import { ClaudeCodeSandboxManager } from './ClaudeCodeSandboxManager';
+import { ClaudeBinaryResolver, compareVersions } from './ClaudeBinaryResolver';
+import { ClaudeCodeWatchdog } from './ClaudeCodeWatchdog';
+import { ClaudeCodePermissionBroker } from './ClaudeCodePermissionBroker';
+import { ClaudeCodeEventStream, ClaudeCodeStreamEvent } from './ClaudeCodeEventStream';
+import { ClaudeCodeUsageTracker } from './ClaudeCodeUsageTracker';
+import { ClaudeCodeToolAuditLog } from './ClaudeCodeToolAuditLog';
+import {
+  buildCorrectionPrompt,
+  buildStructuredPrompt,
+  compileSchema,
+  DEFAULT_MAX_CORRECTIONS,
+  StructuredOutputError,
+} from './structuredOutput';
+import { getAgentDataDir } from './agentPaths';
+import { validateMcpServers } from './mcpConfig';
 import {
   AgentConfig,
   ClaudeCodeSpawnOptions,
   ClaudeCodeSession,
+  ClaudeCodeSessionRecord,
   ClaudeCodeEvent,
   ClaudeCodeRuntimeOptions,
+  ClaudeCodeTranscriptEntry,
+  ClaudeCodeSandbox,
+  ClaudeCodeSandboxDiff,
+  ClaudeCodeSandboxResolution,
+  ClaudeCodeMcpServerStatus,
+  ClaudeCodeCapabilities,
+  ClaudeCodePermissionAuditEntry,
+  ClaudeCodePermissionRequest,
+  ClaudeCodeJsonSchema,
+  ClaudeCodeStructuredTaskOptions,
+  ClaudeCodeStreamOptions,
+  ClaudeCodeAskOptions,
+  ClaudeCodeBudget,
+  ClaudeCodeUsageQuery,
+  ClaudeCodeUsageReport,
+  ClaudeCodeToolAuditEntry,
+  ClaudeCodeToolAuditQuery,
+  ClaudeCodeWatchdogConfig,
 } from '../types/runtime';
 
+/** Without a watchdog config only the tasks' own wall-clock limits apply */
+const TASK_LIMITS_ONLY: ClaudeCodeWatchdogConfig = { idleAfterMs: Number.POSITIVE_INFINITY };
+
 /**
  * Main runtime for Claude Code agent integration
  */
 export class ClaudeCodeRuntime extends EventEmitter {
   private agent: AgentConfig;
   private spawner: ClaudeCodeProcessSpawner;
+  private scheduler: ClaudeCodeSessionScheduler;
   private communicator: ClaudeCodeCommunicator;
+  private sessionStore?: ClaudeCodeSessionStore;
+  private transcriptStore?: ClaudeCodeTranscriptStore;
+  private sandboxes: ClaudeCodeSandboxManager;
+  private binaryResolver: ClaudeBinaryResolver;
+  /** Live session ID -> ID of the sandbox it runs in */
+  private sandboxOwners: Map<string, string> = new Map();
+  /** Sessions being restarted into a new session that keeps their sandbox */
+  private sandboxHandoffs: Set<string> = new Set();
+  private watchdog: ClaudeCodeWatchdog;
+  private permissionBroker: ClaudeCodePermissionBroker;
+  private eventStream: ClaudeCodeEventStream;
+  private usageTracker: ClaudeCodeUsageTracker;
+  private toolAudit: ClaudeCodeToolAuditLog;
   private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+  private onEvent?: (event: ClaudeCodeEvent) => void;
   private isInitialized: boolean = false;
 
   constructor(options: ClaudeCodeRuntimeOptions) {
     super();
     this.agent = options.agent;
     this.logger = options.logger || this.defaultLogger;
+    this.onEvent = options.onEvent;
 
     // Validate agent configuration
     this.validateAgentConfig();
 
+    // Initialize sandboxes (per-session worktrees or copies, see claudeCode.isolation)
+    this.sandboxes = new ClaudeCodeSandboxManager({
+      directory: path.join(getAgentDataDir(this.agent), 'sandboxes'),
+      excludedDirectories: [getAgentDataDir(this.agent)],
+      logger: this.logger,
+    });
+
+    // Initialize binary resolver (binaryPath, $CLAUDE_BINARY, PATH, install locations)
+    this.binaryResolver = new ClaudeBinaryResolver({
+      binaryPath: this.agent.claudeCode?.binaryPath,
+      minVersion: this.agent.claudeCode?.minVersion,
+      env: { ...process.env, ...this.agent.claudeCode?.env },
+      logger: this.logger,
+    });
+
     // Initialize spawner
     this.spawner = new ClaudeCodeProcessSpawner({
       agent: this.agent,
       logger: this.logger,
+      sandboxes: this.sandboxes,
+      binaryResolver: this.binaryResolver,
+    });
+
+    // Initialize scheduler (concurrency limit and queue in front of the spawner)
+    this.scheduler = new ClaudeCodeSessionScheduler({
+      spawner: this.spawner,
+      maxConcurrentSessions: this.agent.claudeCode?.maxConcurrentSessions,
+      logger: this.logger,
     });
 
     // Initialize communicator
@@ -45,9 +127,85 @@ export class ClaudeCodeRuntime extends EventEmitter {
       logger: this.logger,
     });
 
+    // Initialize watchdog (idle state, idle timeouts, wall-clock limits)
+    this.watchdog = new ClaudeCodeWatchdog({
+      spawner: this.spawner,
+      config: this.agent.claudeCode?.watchdog || TASK_LIMITS_ONLY,
+      logger: this.logger,
+    });
+
+    // Initialize permission broker (rules, then approvePermission, then the default)
+    const permissions = this.agent.claudeCode?.permissions || {};
+    this.permissionBroker = new ClaudeCodePermissionBroker({
+      rules: permissions.rules,
+      defaultDecision: permissions.defaultDecision,
+      approve: options.approvePermission,
+      approvalTimeoutMs: permissions.approvalTimeoutMs,
+      auditPath: permissions.audit !== false
+        ? path.join(getAgentDataDir(this.agent), 'permissions.jsonl')
+        : undefined,
+      logger: this.logger,
+    });
+
+    // Add up tokens and cost in usage.jsonl and enforce claudeCode.budgets
+    this.usageTracker = new ClaudeCodeUsageTracker({
+      spawner: this.spawner,
+      communicator: this.communicator,
+      budgets: this.agent.claudeCode?.budgets,
+      ledgerPath: path.join(getAgentDataDir(this.agent), 'usage.jsonl'),
+      logger: this.logger,
+    });
+
+    // Record every tool call and its outcome unless turned off
+    this.toolAudit = new ClaudeCodeToolAuditLog({
+      path: this.agent.claudeCode?.toolAudit !== false
+        ? path.join(getAgentDataDir(this.agent), 'tool-audit.jsonl')
+        : undefined,
+      logger: this.logger,
+    });
+
+    // Record each session's events for stream(); slow readers pause the session's output
+    this.eventStream = new ClaudeCodeEventStream({
+      source: this,
+      historyLimit: this.agent.claudeCode?.streamHistory,
+      pause: (sessionId) => this.spawner.pauseOutput(sessionId),
+      resume: (sessionId) => this.spawner.resumeOutput(sessionId),
+    });
+
     // Forward events from spawner
     this.setupEventForwarding(options.onEvent);
 
+    this.setupPermissions();
+    this.setupToolAudit();
+
+    // Persist sessions and pick up the ones from previous runs
+    if (this.agent.claudeCode?.sessionPersistence) {
+      this.sessionStore = new ClaudeCodeSessionStore({
+        directory: path.join(getAgentDataDir(this.agent), 'sessions'),
+      });
+      this.rehydrateSessions();
+      this.setupSessionPersistence();
+    }
+
+    this.setupSandboxes();
+
+    // Record full transcripts (input, output, lifecycle) unless turned off
+    if (this.agent.claudeCode?.transcripts !== false) {
+      this.transcriptStore = new ClaudeCodeTranscriptStore({
+        directory: path.join(getAgentDataDir(this.agent), 'transcripts'),
+      });
+      this.setupTranscripts();
+    }
+
+    this.watchdog.start();
+
+    // Processes left behind by a gateway that crashed mid-session
+    this.spawner.reapOrphans().catch((error) => {
+      this.logger('warn', 'Failed to reap orphaned Claude Code processes', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
     this.isInitialized = true;
     this.logger('info', 'Claude Code Runtime initialized', {
       agentId: this.agent.id,
@@ -56,7 +214,9 @@ export class ClaudeCodeRuntime extends EventEmitter {
   }
 
   /**
-   * Start a new Claude Code session
+   * Start a new Claude Code session. When the agent is at its
+   * maxConcurrentSessions limit the session is returned in the 'queued'
+   * state and starts (in place) once a slot frees up.
    */
   async startSession(options: ClaudeCodeSpawnOptions): Promise<ClaudeCodeSession> {
     this.ensureInitialized();
@@ -68,13 +228,26 @@ export class ClaudeCodeRuntime extends EventEmitter {
       continue: options.continue,
     });
 
+    if (this.usageTracker.isOverDailyBudget()) {
+      const error = new Error(`Agent ${this.agent.id} has used up its daily budget`);
+      this.logger('warn', 'Not starting Claude Code session', { agentId: this.agent.id, error: error.message });
+      throw error;
+    }
+
     try {
-      const session = await this.spawner.spawn(options);
+      const session = await this.scheduler.submit(options);
 
-      this.logger('info', 'Claude Code session started', {
-        sessionId: session.sessionId,
-        pid: session.pid,
-      });
+      if (session.state === 'queued') {
+        this.logger('info', 'Claude Code session queued', {
+          sessionId: session.sessionId,
+          position: session.queuePosition,
+        });
+      } else {
+        this.logger('info', 'Claude Code session started', {
+          sessionId: session.sessionId,
+          pid: session.pid,
+        });
+      }
 
       return session;
     } catch (error) {
@@ -94,9 +267,12 @@ export class ClaudeCodeRuntime extends EventEmitter {
 
     this.logger('info', 'Stopping Claude Code session', { sessionId, force });
 
+    if (this.scheduler.cancel(sessionId)) {
+      return;
+    }
+
     try {
       await this.spawner.stop(sessionId, force);
-      this.communicator.offOutput(sessionId);
 
       this.logger('info', 'Claude Code session stopped', { sessionId });
     } catch (error) {
@@ -117,7 +293,17 @@ export class ClaudeCodeRuntime extends EventEmitter {
     this.logger('info', 'Restarting Claude Code session', { sessionId });
 
     try {
-      const newSession = await this.spawner.restart(sessionId);
+      // The new session keeps working in the old one's sandbox
+      this.sandboxHandoffs.add(sessionId);
+      let newSession: ClaudeCodeSession;
+      try {
+        newSession = await this.spawner.restart(sessionId);
+      } finally {
+        this.sandboxHandoffs.delete(sessionId);
+      }
+      if (newSession.sandbox) {
+        this.sandboxOwners.set(newSession.sessionId, newSession.sandbox.sessionId);
+      }
 
       this.logger('info', 'Claude Code session restarted', {
         oldSessionId: sessionId,
@@ -135,7 +321,8 @@ export class ClaudeCodeRuntime extends EventEmitter {
   }
 
   /**
-   * Resume a previous session by ID
+   * Resume a previous session by ID. Accepts either a wrapper session ID
+   * returned by startSession or a Claude Code session UUID.
    */
   async resumeSession(sessionId: string, task?: string): Promise<ClaudeCodeSession> {
     this.ensureInitialized();
@@ -172,6 +359,19 @@ export class ClaudeCodeRuntime extends EventEmitter {
     await this.communicator.sendMessage(sessionId, message);
   }
 
+  /**
+   * Send a message as its own turn and resolve with the reply to it. Messages
+   * sent while the session is busy are queued and delivered in order.
+   */
+  async ask(sessionId: string, message: string, options: ClaudeCodeAskOptions = {}): Promise<ParsedOutput> {
+    this.ensureInitialized();
+
+    if (!this.spawner.getSession(sessionId) && !this.scheduler.getQueuedSession(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    return this.communicator.ask(sessionId, message, options);
+  }
+
   /**
    * Send a command to a running session (e.g., /ralph-loop)
    */
@@ -181,27 +381,301 @@ export class ClaudeCodeRuntime extends EventEmitter {
   }
 
   /**
-   * Wait for a session to complete
+   * Wait for a session to complete. A session that has already ended answers
+   * at once: with its persisted result if it has one, else by rejecting.
+   */
+  async waitForCompletion(sessionId: string, timeoutMs?: number, signal?: AbortSignal): Promise<ParsedOutput> {
+    this.ensureInitialized();
+
+    if (!this.spawner.getSession(sessionId) && !this.scheduler.getQueuedSession(sessionId)) {
+      const record = this.sessionStore?.load(sessionId);
+      if (record?.result !== undefined && record.state !== 'error') {
+        return { type: 'result', content: record.result, isComplete: true };
+      }
+      throw new Error(`Session ${sessionId} stopped before completing`);
+    }
+
+    return this.communicator.waitForCompletion(sessionId, timeoutMs, signal);
+  }
+
+  /**
+   * A session's events as an async iterable: everything since the session
+   * started (unless replay is false), then live events until it stops or
+   * the signal aborts. A reader that falls highWaterMark events behind
+   * pauses the session's output until it catches up.
    */
-  async waitForCompletion(sessionId: string, timeoutMs?: number): Promise<any> {
+  stream(sessionId: string, options: ClaudeCodeStreamOptions = {}): AsyncIterableIterator<ClaudeCodeStreamEvent> {
     this.ensureInitialized();
-    return this.communicator.waitForCompletion(sessionId, timeoutMs);
+
+    if (!this.eventStream.has(sessionId) && !this.getSession(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const live = !!(this.spawner.getSession(sessionId) || this.scheduler.getQueuedSession(sessionId));
+    return this.eventStream.stream(sessionId, options, live);
+  }
+
+  /**
+   * Run a task whose answer must be JSON matching `schema`. The session is
+   * told the shape up front and asked to correct invalid answers up to
+   * maxCorrections times; rejects with a StructuredOutputError if it never
+   * gets it right. The session is stopped afterwards unless keepSession is set.
+   */
+  async runTask<T = unknown>(
+    task: string | ClaudeCodeSpawnOptions,
+    schema: ClaudeCodeJsonSchema,
+    options: ClaudeCodeStructuredTaskOptions = {}
+  ): Promise<T> {
+    this.ensureInitialized();
+
+    const check = compileSchema<T>(schema);
+    const spawnOptions = typeof task === 'string' ? { task } : task;
+    const maxCorrections = options.maxCorrections ?? DEFAULT_MAX_CORRECTIONS;
+
+    const session = await this.startSession({
+      ...spawnOptions,
+      task: buildStructuredPrompt(spawnOptions.task, schema),
+    });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const result = await this.waitForCompletion(session.sessionId, options.timeoutMs, options.signal);
+        const checked = check(result.content);
+
+        if (checked.valid) {
+          this.logger('info', 'Structured task completed', { sessionId: session.sessionId, attempts: attempt });
+          return checked.value;
+        }
+
+        this.logger('warn', 'Structured answer did not validate', {
+          sessionId: session.sessionId,
+          attempt,
+          errors: checked.errors,
+        });
+
+        if (attempt > maxCorrections) {
+          throw new StructuredOutputError(
+            `Answer of session ${session.sessionId} did not match the schema after ${attempt} attempt(s): `
+              + checked.errors.join('; '),
+            checked.errors,
+            attempt,
+            result.content
+          );
+        }
+
+        await this.sendMessage(session.sessionId, buildCorrectionPrompt(checked.errors));
+      }
+    } finally {
+      if (!options.keepSession) {
+        await this.stopSession(session.sessionId).catch((error) => {
+          this.logger('warn', 'Failed to stop structured task session', {
+            sessionId: session.sessionId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+    }
   }
 
   /**
-   * Get session information
+   * Get session information (active sessions first, then persisted history), as a snapshot
    */
   getSession(sessionId: string): ClaudeCodeSession | undefined {
     this.ensureInitialized();
-    return this.spawner.getSession(sessionId);
+
+    const active = this.spawner.getSession(sessionId) || this.scheduler.getQueuedSession(sessionId);
+    if (active) {
+      return this.snapshotSession(active);
+    }
+
+    const record = this.sessionStore?.load(sessionId);
+    return record ? ClaudeCodeSessionStore.toSession(record) : undefined;
+  }
+
+  /**
+   * Get all active and queued sessions, optionally followed by persisted historical ones, as snapshots
+   */
+  getAllSessions(options: { includeHistory?: boolean } = {}): ClaudeCodeSession[] {
+    this.ensureInitialized();
+
+    const active = [...this.spawner.getAllSessions(), ...this.scheduler.getQueuedSessions()]
+      .map((session) => this.snapshotSession(session));
+    if (!options.includeHistory || !this.sessionStore) {
+      return active;
+    }
+
+    const activeIds = new Set(active.map((session) => session.sessionId));
+    const history = this.sessionStore
+      .list()
+      .filter((record) => !activeIds.has(record.sessionId))
+      .map((record) => ClaudeCodeSessionStore.toSession(record));
+
+    return [...active, ...history];
+  }
+
+  /**
+   * Cancel a queued session before it starts
+   */
+  cancelQueuedSession(sessionId: string): boolean {
+    this.ensureInitialized();
+    return this.scheduler.cancel(sessionId);
+  }
+
+  /**
+   * 1-based queue position of a queued session
+   */
+  getQueuePosition(sessionId: string): number | undefined {
+    this.ensureInitialized();
+    return this.scheduler.getQueuePosition(sessionId);
+  }
+
+  /**
+   * MCP servers of a running session and whether they connected. Sessions
+   * on the PTY backend don't report status, so their configured servers
+   * are listed as 'unknown'.
+   */
+  getMcpServers(sessionId: string): ClaudeCodeMcpServerStatus[] {
+    this.ensureInitialized();
+
+    const session = this.spawner.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    return session.mcpServers
+      || Object.keys(this.agent.claudeCode?.mcpServers || {}).map((name) => ({ name, status: 'unknown' }));
+  }
+
+  /**
+   * Sandbox created for a session (see claudeCode.isolation)
+   */
+  getSandbox(sessionId: string): ClaudeCodeSandbox | undefined {
+    this.ensureInitialized();
+    return this.sandboxes.get(sessionId);
+  }
+
+  /**
+   * All sandboxes that have not been merged, kept or discarded yet
+   */
+  listSandboxes(): ClaudeCodeSandbox[] {
+    this.ensureInitialized();
+    return this.sandboxes.list();
+  }
+
+  /**
+   * Changes a session has made in its sandbox so far
+   */
+  async getSandboxDiff(sessionId: string): Promise<ClaudeCodeSandboxDiff> {
+    this.ensureInitialized();
+
+    const sandbox = this.sandboxes.get(sessionId);
+    if (!sandbox) {
+      throw new Error(`No sandbox for session ${sessionId}`);
+    }
+    return this.sandboxes.diff(sandbox);
+  }
+
+  /**
+   * Merge a finished session's sandbox into its source, keep its branch (or
+   * copy) for later, or discard it
+   */
+  async resolveSandbox(sessionId: string, action: ClaudeCodeSandboxResolution): Promise<void> {
+    this.ensureInitialized();
+
+    if ([...this.sandboxOwners.values()].includes(sessionId)) {
+      throw new Error(`Session ${sessionId} is still running in its sandbox; stop it first`);
+    }
+
+    this.logger('info', 'Resolving session sandbox', { sessionId, action });
+    await this.sandboxes.resolve(sessionId, action);
+
+    const event: ClaudeCodeEvent = { type: 'sandbox-resolved', sessionId, action };
+    this.emit(event.type, event);
+    this.onEvent?.(event);
+  }
+
+  /**
+   * Tokens, cost and turns from the usage ledger, in total, per session and
+   * per UTC day. Stream-json sessions only; the TUI doesn't report usage.
+   */
+  getUsage(query: ClaudeCodeUsageQuery = {}): ClaudeCodeUsageReport {
+    this.ensureInitialized();
+    return this.usageTracker.query(query);
   }
 
   /**
-   * Get all active sessions
+   * Recorded permission decisions, oldest first, optionally for one session
    */
-  getAllSessions(): ClaudeCodeSession[] {
+  getPermissionLog(sessionId?: string): ClaudeCodePermissionAuditEntry[] {
     this.ensureInitialized();
-    return this.spawner.getAllSessions();
+    return this.permissionBroker.readAuditLog(sessionId);
+  }
+
+  /**
+   * Recorded tool calls, oldest first, filtered by session, tool (name or
+   * glob) and time range
+   */
+  getToolAuditLog(query: ClaudeCodeToolAuditQuery = {}): ClaudeCodeToolAuditEntry[] {
+    this.ensureInitialized();
+    return this.toolAudit.read(query);
+  }
+
+  /**
+   * Full transcript of a session, oldest entry first
+   */
+  readTranscript(sessionId: string): ClaudeCodeTranscriptEntry[] {
+    return this.getTranscriptStore().read(sessionId);
+  }
+
+  /**
+   * ANSI-stripped plain-text view of a session's transcript
+   */
+  readTranscriptText(sessionId: string): string {
+    return this.getTranscriptStore().readText(sessionId);
+  }
+
+  /**
+   * The most recent transcript entries of a session
+   */
+  tailTranscript(sessionId: string, limit: number = 50): ClaudeCodeTranscriptEntry[] {
+    return this.getTranscriptStore().tail(sessionId, limit);
+  }
+
+  /**
+   * Re-emit a recorded session's input and output as 'input'/'output' events
+   * marked `replayed: true`. With `realtime` the original gaps are kept
+   * (each capped at maxDelayMs). Resolves with the number of events emitted.
+   */
+  async replayTranscript(
+    sessionId: string,
+    options: { realtime?: boolean; maxDelayMs?: number } = {}
+  ): Promise<number> {
+    const entries = this.getTranscriptStore().read(sessionId);
+    const maxDelayMs = options.maxDelayMs ?? 1000;
+
+    let replayed = 0;
+    let previous: number | undefined;
+
+    for (const entry of entries) {
+      if (entry.type === 'event') continue;
+
+      const at = Date.parse(entry.timestamp);
+      const gapMs = previous !== undefined ? Math.min(at - previous, maxDelayMs) : 0;
+      if (options.realtime && gapMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, gapMs));
+      }
+      previous = at;
+
+      const event: ClaudeCodeEvent =
+        entry.type === 'input'
+          ? { type: 'input', sessionId, kind: entry.kind, data: entry.data, replayed: true }
+          : { type: 'output', sessionId, data: entry.data, replayed: true };
+
+      this.emit(event.type, event);
+      replayed++;
+    }
+
+    return replayed;
   }
 
   /**
@@ -213,20 +687,27 @@ export class ClaudeCodeRuntime extends EventEmitter {
   }
 
   /**
-   * Check if Claude Code is available
+   * Check if Claude Code is available, which binary would be used and what it supports
    */
-  async checkAvailability(): Promise<{ available: boolean; version?: string; error?: string }> {
-    const claudeConfig = this.agent.claudeCode || {};
-    const binaryPath = claudeConfig.binaryPath || '/opt/homebrew/bin/claude';
+  async checkAvailability(): Promise<{
+    available: boolean;
+    version?: string;
+    binaryPath?: string;
+    capabilities?: ClaudeCodeCapabilities;
+    error?: string;
+  }> {
+    let binaryPath: string | undefined;
+    let capabilities: ClaudeCodeCapabilities | undefined;
 
     try {
-      const childProcess = await import('child_process');
-      const output = childProcess.execSync(`${binaryPath} --version`, {
-        encoding: 'utf-8',
-        timeout: 5000,
-      });
+      binaryPath = this.binaryResolver.resolve();
+      capabilities = await this.binaryResolver.probe(binaryPath);
+      const { version } = capabilities;
 
-      const version = output.trim();
+      const minVersion = this.agent.claudeCode?.minVersion;
+      if (minVersion && (!version || compareVersions(version, minVersion) < 0)) {
+        throw new Error(`Claude Code ${version || 'of unknown version'} is older than claudeCode.minVersion ${minVersion}`);
+      }
 
       this.logger('info', 'Claude Code availability check', {
         available: true,
@@ -234,7 +715,7 @@ export class ClaudeCodeRuntime extends EventEmitter {
         binaryPath,
       });
 
-      return { available: true, version };
+      return { available: true, version, binaryPath, capabilities };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
 
@@ -245,6 +726,9 @@ export class ClaudeCodeRuntime extends EventEmitter {
 
       return {
         available: false,
+        version: capabilities?.version,
+        binaryPath,
+        capabilities,
         error: errorMsg,
       };
     }
@@ -260,8 +744,12 @@ export class ClaudeCodeRuntime extends EventEmitter {
     });
 
     try {
+      // Drop the queue first so stopping sessions doesn't start queued ones
+      this.watchdog.stop();
+      this.scheduler.cancelAll();
       await this.spawner.cleanup();
       this.communicator.cleanup();
+      this.eventStream.clear();
       this.isInitialized = false;
 
       this.logger('info', 'Claude Code Runtime shutdown complete', {
@@ -292,44 +780,408 @@ export class ClaudeCodeRuntime extends EventEmitter {
       );
     }
 
+    if (this.agent.claudeCode?.mcpServers) {
+      validateMcpServers(this.agent.claudeCode.mcpServers);
+    }
+
+    const permissions = this.agent.claudeCode?.permissions;
+    if (permissions) {
+      for (const [index, rule] of (permissions.rules || []).entries()) {
+        if (rule.decision !== 'allow' && rule.decision !== 'deny') {
+          throw new Error(`claudeCode.permissions.rules[${index}].decision must be 'allow' or 'deny'`);
+        }
+      }
+      if (permissions.defaultDecision && !['allow', 'deny'].includes(permissions.defaultDecision)) {
+        throw new Error(`claudeCode.permissions.defaultDecision must be 'allow' or 'deny'`);
+      }
+    }
+
+    const budgets = this.agent.claudeCode?.budgets;
+    for (const scope of ['session', 'daily'] as const) {
+      const budget: ClaudeCodeBudget | undefined = budgets?.[scope];
+      if (!budget) continue;
+      for (const limit of ['maxCostUsd', 'maxTokens'] as const) {
+        const value = budget[limit];
+        if (value !== undefined && !(value > 0)) {
+          throw new Error(`claudeCode.budgets.${scope}.${limit} must be a positive number`);
+        }
+      }
+      if (budget.warnAt !== undefined && !(budget.warnAt > 0 && budget.warnAt <= 1)) {
+        throw new Error(`claudeCode.budgets.${scope}.warnAt must be between 0 and 1`);
+      }
+      if (budget.action && !['stop', 'interrupt'].includes(budget.action)) {
+        throw new Error(`claudeCode.budgets.${scope}.action must be 'stop' or 'interrupt'`);
+      }
+    }
+
     this.logger('debug', 'Agent configuration validated', {
       agentId: this.agent.id,
       workspace: this.agent.workspace,
     });
   }
 
-  private ensureInitialized(): void {
-    if (!this.isInitialized) {
-      throw new Error('Claude Code Runtime is not initialized');
+  private rehydrateSessions(): void {
+    const store = this.sessionStore;
+    if (!store) return;
+
+    let interrupted = 0;
+    const records = this.persist('load sessions', () => store.list()) || [];
+
+    for (const record of records) {
+      this.spawner.registerKnownSession(record.sessionId, record.workdir, record.claudeSessionId);
+
+      // Anything still marked live died with the previous gateway process
+      if (record.state !== 'stopped' && record.state !== 'error') {
+        interrupted++;
+        this.persist('mark interrupted session', () =>
+          store.update(record.sessionId, {
+            state: 'stopped',
+            endedAt: record.lastActivity,
+            error: record.error || 'Gateway exited while the session was active',
+          })
+        );
+      }
     }
+
+    this.logger('info', 'Rehydrated persisted sessions', {
+      agentId: this.agent.id,
+      count: records.length,
+      interrupted,
+    });
   }
 
-  private setupEventForwarding(onEvent?: (event: ClaudeCodeEvent) => void): void {
-    // Forward all spawner events
+  private setupSessionPersistence(): void {
+    const store = this.sessionStore;
+    if (!store) return;
+
+    const snapshot = (sessionId: string): Partial<ClaudeCodeSessionRecord> => {
+      const session = this.spawner.getSession(sessionId);
+      return session
+        ? { state: session.state, lastActivity: session.lastActivity.toISOString() }
+        : { lastActivity: new Date().toISOString() };
+    };
+
     this.spawner.on('started', (event: ClaudeCodeEvent) => {
-      this.emit('started', event);
-      if (onEvent) onEvent(event);
+      const session = this.spawner.getSession(event.sessionId);
+      if (session) {
+        this.persist('save session', () => store.save(ClaudeCodeSessionStore.toRecord(session)));
+      }
     });
 
-    this.spawner.on('output', (event: ClaudeCodeEvent) => {
-      this.emit('output', event);
-      if (onEvent) onEvent(event);
+    this.spawner.on('session-id', (event: ClaudeCodeEvent) => {
+      if (event.type !== 'session-id') return;
+      this.persist('update session', () =>
+        store.update(event.sessionId, { claudeSessionId: event.claudeSessionId })
+      );
+    });
+
+    this.spawner.on('completed', (event: ClaudeCodeEvent) => {
+      if (event.type !== 'completed') return;
+      this.persist('update session', () =>
+        store.update(event.sessionId, { ...snapshot(event.sessionId), result: event.result })
+      );
     });
 
     this.spawner.on('error', (event: ClaudeCodeEvent) => {
-      this.emit('error', event);
-      if (onEvent) onEvent(event);
+      if (event.type !== 'error') return;
+      this.persist('update session', () =>
+        store.update(event.sessionId, { ...snapshot(event.sessionId), error: event.error })
+      );
     });
 
-    this.spawner.on('completed', (event: ClaudeCodeEvent) => {
-      this.emit('completed', event);
-      if (onEvent) onEvent(event);
+    this.spawner.on('gave-up', (event: ClaudeCodeEvent) => {
+      if (event.type !== 'gave-up') return;
+      this.persist('update session', () =>
+        store.update(event.sessionId, {
+          state: 'error',
+          exitCode: event.exitCode,
+          error: `Claude Code kept exiting; gave up after ${event.attempts} restart attempt(s)`,
+        })
+      );
+    });
+
+    this.usageTracker.on('usage', (event: ClaudeCodeEvent) => {
+      if (event.type !== 'usage') return;
+      this.persist('update session', () => store.update(event.sessionId, { usage: event.usage }));
     });
 
     this.spawner.on('stopped', (event: ClaudeCodeEvent) => {
-      this.emit('stopped', event);
-      if (onEvent) onEvent(event);
+      if (event.type !== 'stopped') return;
+      const now = new Date().toISOString();
+      this.persist('update session', () => {
+        // A session that failed stays failed, with the exit code it failed with
+        const failed = store.load(event.sessionId)?.state === 'error';
+        return store.update(event.sessionId, {
+          ...(!failed && { state: 'stopped' }),
+          lastActivity: now,
+          endedAt: now,
+          ...(event.exitCode !== undefined && !failed ? { exitCode: event.exitCode } : {}),
+        });
+      });
+    });
+  }
+
+  /**
+   * Answer permission prompts: control requests from stream-json sessions and
+   * permission dialogs on the TUI's screen
+   */
+  private setupPermissions(): void {
+    this.spawner.on('permission-request', (event: ClaudeCodeEvent) => {
+      if (event.type !== 'permission-request') return;
+      this.handlePermissionRequest(event.request);
+    });
+
+    this.communicator.on('parsed-output', ({ sessionId, output }: { sessionId: string; output: ParsedOutput }) => {
+      if (output.type !== 'screen' || output.state !== 'permission') return;
+
+      const session = this.spawner.getSession(sessionId);
+      if (!session) return;
+
+      this.handlePermissionRequest({
+        sessionId,
+        toolName: output.permission?.toolName ?? 'unknown',
+        input: output.permission?.input ?? {},
+        workdir: session.workdir,
+        prompt: output.content,
+        ...(output.permission?.partial && { partial: true }),
+      });
+    });
+  }
+
+  private handlePermissionRequest(request: ClaudeCodePermissionRequest): void {
+    const requested: ClaudeCodeEvent = { type: 'permission-request', sessionId: request.sessionId, request };
+    this.emit(requested.type, requested);
+    this.onEvent?.(requested);
+
+    this.permissionBroker
+      .decide(request)
+      .then((decision) => {
+        // Throws if the session ended while a human was deciding
+        this.spawner.answerPermission(request.sessionId, request, decision);
+
+        const decided: ClaudeCodeEvent = { type: 'permission-decision', sessionId: request.sessionId, request, decision };
+        this.emit(decided.type, decided);
+        this.onEvent?.(decided);
+      })
+      .catch((error) => {
+        this.logger('warn', 'Failed to answer permission request', {
+          sessionId: request.sessionId,
+          toolName: request.toolName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  private setupToolAudit(): void {
+    this.communicator.on('parsed-output', ({ sessionId, output }: { sessionId: string; output: ParsedOutput }) => {
+      this.toolAudit.observe(sessionId, output, this.spawner.getSession(sessionId)?.workdir);
+    });
+
+    // Only stream-json output carries tool calls; say so rather than keep an empty log
+    let ptyWarned = false;
+    this.spawner.on('started', (event: ClaudeCodeEvent) => {
+      if (ptyWarned || this.agent.claudeCode?.toolAudit === false) return;
+      if (this.spawner.getSession(event.sessionId)?.backend !== 'pty') return;
+      ptyWarned = true;
+      this.logger('warn', 'Tool audit is not available on the pty backend; use backend stream-json to record tool calls', {
+        agentId: this.agent.id,
+        sessionId: event.sessionId,
+      });
+    });
+
+    // Calls still running when their process goes never get a result
+    this.spawner.on('restarting', (event: ClaudeCodeEvent) => {
+      this.toolAudit.endSession(event.sessionId);
     });
+    this.communicator.on('output-ended', ({ sessionId }: { sessionId: string }) => {
+      this.toolAudit.endSession(sessionId);
+    });
+  }
+
+  private setupSandboxes(): void {
+    this.spawner.on('started', (event: ClaudeCodeEvent) => {
+      const sandbox = this.spawner.getSession(event.sessionId)?.sandbox;
+      if (sandbox) {
+        this.sandboxOwners.set(event.sessionId, sandbox.sessionId);
+      }
+    });
+
+    this.spawner.on('stopped', (event: ClaudeCodeEvent) => {
+      const sandboxId = this.sandboxOwners.get(event.sessionId);
+      this.sandboxOwners.delete(event.sessionId);
+      if (!sandboxId || this.sandboxHandoffs.has(event.sessionId)) return;
+
+      // Still in use by a session that took over (restartSession)
+      if ([...this.sandboxOwners.values()].includes(sandboxId)) return;
+
+      this.reportSandbox(event.sessionId, sandboxId).catch((error) => {
+        this.logger('warn', 'Failed to diff session sandbox', {
+          sessionId: sandboxId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+  }
+
+  private async reportSandbox(sessionId: string, sandboxId: string): Promise<void> {
+    const sandbox = this.sandboxes.get(sandboxId);
+    if (!sandbox) return;
+
+    const diff = await this.sandboxes.diff(sandbox);
+    this.logger('info', 'Session sandbox ready', {
+      sessionId,
+      sandbox: sandboxId,
+      branch: sandbox.branch,
+      changedFiles: diff.files.length,
+    });
+
+    const event: ClaudeCodeEvent = { type: 'sandbox-ready', sessionId, sandbox, diff };
+    this.emit(event.type, event);
+    this.onEvent?.(event);
+  }
+
+  private setupTranscripts(): void {
+    const store = this.transcriptStore;
+    if (!store) return;
+
+    const record = (sessionId: string, entry: ClaudeCodeTranscriptEntry) =>
+      this.persist('record transcript', () => store.append(sessionId, entry));
+
+    this.spawner.on('input', (event: ClaudeCodeEvent) => {
+      if (event.type !== 'input') return;
+      record(event.sessionId, {
+        timestamp: new Date().toISOString(),
+        type: 'input',
+        kind: event.kind,
+        data: event.data,
+      });
+    });
+
+    this.spawner.on('output', (event: ClaudeCodeEvent) => {
+      if (event.type !== 'output') return;
+      record(event.sessionId, { timestamp: new Date().toISOString(), type: 'output', data: event.data });
+    });
+
+    const lifecycle: ClaudeCodeEvent['type'][] = [
+      'started',
+      'session-id',
+      'completed',
+      'error',
+      'stopped',
+      'restarting',
+      'gave-up',
+    ];
+
+    for (const eventType of lifecycle) {
+      this.spawner.on(eventType, (event: ClaudeCodeEvent) => {
+        record(event.sessionId, { timestamp: new Date().toISOString(), type: 'event', event });
+        if (eventType === 'stopped') store.close(event.sessionId);
+      });
+    }
+
+    this.watchdog.on('watchdog', (event: ClaudeCodeEvent) => {
+      record(event.sessionId, { timestamp: new Date().toISOString(), type: 'event', event });
+    });
+
+    this.usageTracker.on('budget', (event: ClaudeCodeEvent) => {
+      record(event.sessionId, { timestamp: new Date().toISOString(), type: 'event', event });
+    });
+  }
+
+  private getTranscriptStore(): ClaudeCodeTranscriptStore {
+    this.ensureInitialized();
+    if (!this.transcriptStore) {
+      throw new Error('Transcripts are disabled for this agent (claudeCode.transcripts is false)');
+    }
+    return this.transcriptStore;
+  }
+
+  /**
+   * Copy of a live session with its usage so far; callers never hold the runtime's own object
+   */
+  private snapshotSession(session: ClaudeCodeSession): ClaudeCodeSession {
+    const usage = this.usageTracker.getSessionUsage(session.sessionId);
+    return { ...session, ...(usage && { usage }) };
+  }
+
+  private persist<T>(action: string, fn: () => T): T | undefined {
+    try {
+      return fn();
+    } catch (error) {
+      this.logger('warn', `Failed to ${action}`, {
+        agentId: this.agent.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('Claude Code Runtime is not initialized');
+    }
+  }
+
+  private setupEventForwarding(onEvent?: (event: ClaudeCodeEvent) => void): void {
+    // Forward all spawner events
+    const spawnerEvents: ClaudeCodeEvent['type'][] = [
+      'started',
+      'session-id',
+      'mcp-status',
+      'input',
+      'output',
+      'error',
+      'completed',
+      'stopped',
+      'restarting',
+      'gave-up',
+    ];
+
+    for (const eventType of spawnerEvents) {
+      this.spawner.on(eventType, (event: ClaudeCodeEvent) => {
+        // An 'error' with no listener would throw from inside the process handlers
+        if (eventType !== 'error' || this.listenerCount('error') > 0) {
+          this.emit(eventType, event);
+        }
+        if (onEvent) onEvent(event);
+      });
+    }
+
+    // Forward scheduler events
+    const schedulerEvents: ClaudeCodeEvent['type'][] = ['queued', 'cancelled', 'error', 'stopped'];
+
+    // A cancelled queued session, or one that failed to launch, never gets to answer
+    this.scheduler.on('cancelled', (event: ClaudeCodeEvent) => {
+      this.communicator.endSession(event.sessionId, `Session ${event.sessionId} was cancelled`);
+    });
+    this.scheduler.on('stopped', (event: ClaudeCodeEvent) => {
+      this.communicator.endSession(event.sessionId, `Session ${event.sessionId} failed to start`);
+    });
+
+    for (const eventType of schedulerEvents) {
+      this.scheduler.on(eventType, (event: ClaudeCodeEvent) => {
+        if (eventType !== 'error' || this.listenerCount('error') > 0) {
+          this.emit(eventType, event);
+        }
+        if (onEvent) onEvent(event);
+      });
+    }
+
+    // Forward watchdog events
+    for (const eventType of ['idle', 'watchdog'] as ClaudeCodeEvent['type'][]) {
+      this.watchdog.on(eventType, (event: ClaudeCodeEvent) => {
+        this.emit(eventType, event);
+        if (onEvent) onEvent(event);
+      });
+    }
+
+    // Forward usage tracker events
+    for (const eventType of ['usage', 'budget'] as ClaudeCodeEvent['type'][]) {
+      this.usageTracker.on(eventType, (event: ClaudeCodeEvent) => {
+        this.emit(eventType, event);
+        if (onEvent) onEvent(event);
+      });
+    }
 
     // Forward communicator events
     this.communicator.on('parsed-output', (data) => {
@@ -0,0 +1,155 @@
+/**
+ * Claude Code Runtime Manager
+ * One ClaudeCodeRuntime per agent, created on first use, with sessions
+ * routed by agent ID and a view across all agents
+ */
+
+import { ClaudeCodeRuntime } from './ClaudeCodeRuntime';
+import {
+  AgentConfig,
+  ClaudeCodeRuntimeManagerOptions,
+  ClaudeCodeSession,
+  ClaudeCodeSpawnOptions,
+} from '../types/runtime';
+
+/**
+ * Runtimes of the claudeCode agents in a gateway's agent list
+ */
+export class ClaudeCodeRuntimeManager {
+  private agents: Map<string, AgentConfig> = new Map();
+  private runtimes: Map<string, ClaudeCodeRuntime> = new Map();
+  private options: ClaudeCodeRuntimeManagerOptions;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+
+  constructor(options: ClaudeCodeRuntimeManagerOptions) {
+    this.options = options;
+    this.logger = options.logger || this.defaultLogger;
+
+    for (const agent of options.agents) {
+      if (agent.runtime !== 'claudeCode') continue;
+      this.addAgent(agent);
+    }
+
+    this.logger('info', 'Claude Code runtime manager initialized', { agents: this.getAgentIds() });
+  }
+
+  /**
+   * IDs of the managed agents
+   */
+  getAgentIds(): string[] {
+    return [...this.agents.keys()];
+  }
+
+  /**
+   * Whether an agent is managed here
+   */
+  hasAgent(agentId: string): boolean {
+    return this.agents.has(agentId);
+  }
+
+  /**
+   * Manage another agent; its runtime is created on first use
+   */
+  addAgent(agent: AgentConfig): void {
+    if (!agent.id) {
+      throw new Error('Agent configuration missing required field: id');
+    }
+    if (this.agents.has(agent.id)) {
+      throw new Error(`Agent ${agent.id} is already managed`);
+    }
+    this.agents.set(agent.id, agent);
+  }
+
+  /**
+   * Stop managing an agent, shutting its runtime down if it was created
+   */
+  async removeAgent(agentId: string): Promise<void> {
+    const runtime = this.runtimes.get(agentId);
+    this.agents.delete(agentId);
+    this.runtimes.delete(agentId);
+    await runtime?.shutdown();
+  }
+
+  /**
+   * An agent's runtime, created (and its config validated) on first use
+   */
+  getRuntime(agentId: string): ClaudeCodeRuntime {
+    const existing = this.runtimes.get(agentId);
+    if (existing) return existing;
+
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      throw new Error(`Agent ${agentId} not found`);
+    }
+
+    this.logger('info', 'Creating Claude Code runtime', { agentId });
+
+    const runtime = new ClaudeCodeRuntime({
+      agent,
+      onEvent: this.options.onEvent && ((event) => this.options.onEvent?.(agentId, event)),
+      approvePermission: this.options.approvePermission,
+      logger: this.options.logger,
+    });
+    this.runtimes.set(agentId, runtime);
+    return runtime;
+  }
+
+  /**
+   * Start a session on an agent
+   */
+  async startSession(agentId: string, options: ClaudeCodeSpawnOptions): Promise<ClaudeCodeSession> {
+    return this.getRuntime(agentId).startSession(options);
+  }
+
+  /**
+   * A session of an agent (see ClaudeCodeRuntime.getSession)
+   */
+  getSession(agentId: string, sessionId: string): ClaudeCodeSession | undefined {
+    if (!this.agents.has(agentId)) return undefined;
+    return this.getRuntime(agentId).getSession(sessionId);
+  }
+
+  /**
+   * Stop a session of an agent
+   */
+  async stopSession(agentId: string, sessionId: string, force: boolean = false): Promise<void> {
+    await this.getRuntime(agentId).stopSession(sessionId, force);
+  }
+
+  /**
+   * Sessions of all agents. Agents whose runtime hasn't been created have no
+   * live sessions; with includeHistory their runtimes are created to read
+   * the persisted sessions.
+   */
+  getAllSessions(options: { includeHistory?: boolean } = {}): ClaudeCodeSession[] {
+    const agentIds = options.includeHistory
+      ? this.getAgentIds().filter((agentId) => this.runtimes.has(agentId) || this.agents.get(agentId)?.claudeCode?.sessionPersistence)
+      : [...this.runtimes.keys()];
+
+    return agentIds.flatMap((agentId) => this.getRuntime(agentId).getAllSessions(options));
+  }
+
+  /**
+   * Shut down every runtime created so far. Runtimes are created afresh on
+   * next use.
+   */
+  async shutdownAll(): Promise<void> {
+    const runtimes = [...this.runtimes.entries()];
+    this.runtimes.clear();
+
+    this.logger('info', 'Shutting down Claude Code runtimes', { agents: runtimes.map(([agentId]) => agentId) });
+
+    const results = await Promise.allSettled(runtimes.map(([, runtime]) => runtime.shutdown()));
+    const failed = runtimes.filter((_, index) => results[index].status === 'rejected').map(([agentId]) => agentId);
+
+    if (failed.length > 0) {
+      throw new Error(`Failed to shut down the runtime of agent(s) ${failed.join(', ')}`);
+    }
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Claude Code Sandbox Manager
+ * Gives each isolated session its own working copy (a git worktree on a
+ * wolverine/<sessionId> branch, or a plain copy of the workdir) so parallel
+ * sessions never touch each other's files, and merges, keeps or discards it
+ * once the session is over
+ */
+
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import {
+  ClaudeCodeSandbox,
+  ClaudeCodeSandboxDiff,
+  ClaudeCodeSandboxResolution,
+} from '../types/runtime';
+
+const execFileAsync = promisify(execFile);
+
+export interface SandboxManagerOptions {
+  /** Directory holding the sandboxes and their metadata */
+  directory: string;
+
+  /**
+   * Directories never copied into (or compared in) a copy sandbox, such as the
+   * agent's data directory when it is inside the workdir. The sandboxes
+   * directory itself is always left out.
+   */
+  excludedDirectories?: string[];
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+type SandboxFile = ClaudeCodeSandboxDiff['files'][number];
+
+/** Content hash of every file of a copy sandbox as it was copied, by relative path */
+type CopyManifest = Record<string, string>;
+
+/** Plenty for the patch of a large session */
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Never compared or copied back in copy mode */
+const COPY_IGNORED = new Set(['.git']);
+
+/**
+ * Creates and resolves per-session sandboxes under an agent's data directory
+ */
+export class ClaudeCodeSandboxManager {
+  private directory: string;
+  private excludedDirectories: string[];
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+
+  constructor(options: SandboxManagerOptions) {
+    this.directory = options.directory;
+    this.excludedDirectories = options.excludedDirectories || [];
+    this.logger = options.logger || this.defaultLogger;
+  }
+
+  /**
+   * Create a sandbox for a session from the given workdir
+   */
+  async create(sessionId: string, sourceDir: string, mode: 'worktree' | 'copy'): Promise<ClaudeCodeSandbox> {
+    const sandboxPath = this.sandboxPath(sessionId);
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    let sandbox: ClaudeCodeSandbox;
+    if (mode === 'worktree') {
+      const repoRoot = await this.git(sourceDir, ['rev-parse', '--show-toplevel']).catch(() => {
+        throw new Error(`Isolation 'worktree' needs a git repository, but ${sourceDir} is not in one`);
+      });
+      const baseRef = await this.git(repoRoot, ['rev-parse', 'HEAD']);
+      const branch = `wolverine/${sessionId}`;
+
+      await this.git(repoRoot, ['worktree', 'add', '-b', branch, sandboxPath, baseRef]);
+
+      sandbox = {
+        sessionId,
+        mode,
+        sourceDir,
+        path: sandboxPath,
+        workdir: path.join(sandboxPath, path.relative(repoRoot, fs.realpathSync(sourceDir))),
+        repoRoot,
+        branch,
+        baseRef,
+        createdAt: new Date().toISOString(),
+      };
+    } else {
+      this.copyTree(fs.realpathSync(sourceDir), sandboxPath, this.excludedPaths());
+      // What the copy started from, so changes made to the source meanwhile aren't taken for the session's
+      this.writeAtomic(this.manifestPath(sessionId), JSON.stringify(this.hashTree(sandboxPath)));
+
+      sandbox = {
+        sessionId,
+        mode,
+        sourceDir,
+        path: sandboxPath,
+        workdir: sandboxPath,
+        createdAt: new Date().toISOString(),
+      };
+    }
+
+    this.saveMetadata(sandbox);
+    this.logger('info', 'Created session sandbox', { sessionId, mode, path: sandboxPath, branch: sandbox.branch });
+    return sandbox;
+  }
+
+  /**
+   * Look up a session's sandbox (including ones from previous gateway runs)
+   */
+  get(sessionId: string): ClaudeCodeSandbox | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.metadataPath(sessionId), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * All unresolved sandboxes
+   */
+  list(): ClaudeCodeSandbox[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.directory);
+    } catch {
+      return [];
+    }
+
+    return names
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => this.get(path.basename(name, '.json')))
+      .filter((sandbox): sandbox is ClaudeCodeSandbox => !!sandbox)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Changes made in the sandbox. In worktree mode this compares the checkout,
+   * committed or not, with the base commit; nothing is committed.
+   */
+  async diff(sandbox: ClaudeCodeSandbox): Promise<ClaudeCodeSandboxDiff> {
+    if (sandbox.mode === 'worktree') {
+      // Mark new files as intended so the diff shows them without staging their content
+      await this.git(sandbox.path, ['add', '-A', '-N']);
+
+      const base = sandbox.baseRef as string;
+      const nameStatus = await this.git(sandbox.path, ['diff', '--name-status', base]);
+      const patch = await this.git(sandbox.path, ['diff', base], false);
+
+      const statuses: Record<string, SandboxFile['status']> = { A: 'added', D: 'deleted', R: 'renamed' };
+      const files = nameStatus
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => {
+          const [status, ...paths] = line.split('\t');
+          return { path: paths[paths.length - 1], status: statuses[status[0]] || 'modified' };
+        });
+
+      return { files, patch };
+    }
+
+    const files = this.copyChanges(sandbox);
+    const patches: string[] = [];
+    for (const file of files) {
+      // The copied original isn't kept; the source has it unless it changed there too (a conflict)
+      const before = file.status === 'added' || !fs.existsSync(path.join(sandbox.sourceDir, file.path))
+        ? '/dev/null'
+        : path.join(sandbox.sourceDir, file.path);
+      const after = file.status === 'deleted' ? '/dev/null' : path.join(sandbox.path, file.path);
+      patches.push(await this.noIndexDiff(before, after));
+    }
+
+    return { files, patch: patches.join('') };
+  }
+
+  /**
+   * Merge the session's work into its source, keep it for later, or throw it away.
+   * A failed merge leaves the sandbox untouched.
+   */
+  async resolve(sessionId: string, action: ClaudeCodeSandboxResolution): Promise<void> {
+    const sandbox = this.get(sessionId);
+    if (!sandbox) {
+      throw new Error(`No sandbox for session ${sessionId}`);
+    }
+
+    if (action === 'merge') {
+      await this.merge(sandbox);
+    }
+
+    if (sandbox.mode === 'worktree') {
+      // Commit first so 'keep' never loses uncommitted work with the checkout
+      if (action === 'keep') await this.commitPending(sandbox);
+
+      const repoRoot = sandbox.repoRoot as string;
+      await this.git(repoRoot, ['worktree', 'remove', '--force', sandbox.path]).catch(() => {
+        fs.rmSync(sandbox.path, { recursive: true, force: true });
+        return this.git(repoRoot, ['worktree', 'prune']);
+      });
+      if (action !== 'keep') {
+        await this.git(repoRoot, ['branch', '-D', sandbox.branch as string]);
+      }
+    } else if (action !== 'keep') {
+      fs.rmSync(sandbox.path, { recursive: true, force: true });
+    }
+
+    fs.rmSync(this.manifestPath(sessionId), { force: true });
+    fs.rmSync(this.metadataPath(sessionId), { force: true });
+    this.logger('info', 'Resolved session sandbox', { sessionId, action, branch: sandbox.branch });
+  }
+
+  // Private methods
+
+  private async merge(sandbox: ClaudeCodeSandbox): Promise<void> {
+    if (sandbox.mode === 'copy') {
+      const files = this.copyChanges(sandbox);
+      const conflicts = files.filter((file) => file.conflict).map((file) => file.path);
+      if (conflicts.length > 0) {
+        throw new Error(
+          `Failed to merge ${sandbox.path} into ${sandbox.sourceDir}: ` +
+          `changed in both since the copy was made: ${conflicts.join(', ')}`
+        );
+      }
+
+      for (const file of files) {
+        const target = path.join(sandbox.sourceDir, file.path);
+        if (file.status === 'deleted') {
+          fs.rmSync(target, { force: true });
+        } else {
+          fs.mkdirSync(path.dirname(target), { recursive: true });
+          fs.copyFileSync(path.join(sandbox.path, file.path), target);
+        }
+      }
+      return;
+    }
+
+    await this.commitPending(sandbox);
+
+    const repoRoot = sandbox.repoRoot as string;
+    try {
+      const identity = await this.identityArgs(repoRoot);
+      await this.git(repoRoot, [...identity, 'merge', '--no-ff', '--no-edit', sandbox.branch as string]);
+    } catch (error) {
+      await this.git(repoRoot, ['merge', '--abort']).catch(() => undefined);
+      throw new Error(
+        `Failed to merge ${sandbox.branch} into ${repoRoot}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async commitPending(sandbox: ClaudeCodeSandbox): Promise<void> {
+    if (!fs.existsSync(sandbox.path)) return;
+
+    await this.git(sandbox.path, ['add', '-A']);
+    const staged = await this.git(sandbox.path, ['diff', '--cached', '--name-only']);
+    if (!staged) return;
+
+    const identity = await this.identityArgs(sandbox.path);
+    await this.git(sandbox.path, [...identity, 'commit', '-q', '-m', `Wolverine session ${sandbox.sessionId}`]);
+  }
+
+  /**
+   * Fall back to a neutral identity where git has none configured
+   */
+  private async identityArgs(cwd: string): Promise<string[]> {
+    return this.git(cwd, ['config', 'user.email'])
+      .then(() => [])
+      .catch(() => ['-c', 'user.name=Wolverine', '-c', 'user.email=wolverine@localhost']);
+  }
+
+  /**
+   * Files changed in a copy sandbox since it was copied, each flagged as a
+   * conflict when the source changed it differently in the meantime
+   */
+  private copyChanges(sandbox: ClaudeCodeSandbox): SandboxFile[] {
+    // Sandboxes from before manifests were kept can only be compared with the source as it is now
+    const before = this.readManifest(sandbox.sessionId) || this.hashTree(sandbox.sourceDir);
+    const after = this.hashTree(sandbox.path);
+    const files: SandboxFile[] = [];
+
+    for (const file of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (before[file] === after[file]) continue;
+
+      const status: SandboxFile['status'] = !before[file] ? 'added' : !after[file] ? 'deleted' : 'modified';
+      const source = this.hashFile(path.join(sandbox.sourceDir, file));
+      const conflict = source !== before[file] && source !== after[file];
+      files.push(conflict ? { path: file, status, conflict } : { path: file, status });
+    }
+
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private hashTree(root: string): CopyManifest {
+    const realRoot = fs.realpathSync(root);
+    const hashes: CopyManifest = {};
+    for (const file of Array.from(this.listFiles(realRoot, '', this.excludedPaths())).sort()) {
+      hashes[file] = this.hashFile(path.join(realRoot, file)) as string;
+    }
+    return hashes;
+  }
+
+  private hashFile(file: string): string | undefined {
+    try {
+      return crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private readManifest(sessionId: string): CopyManifest | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.manifestPath(sessionId), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private listFiles(root: string, relative: string, excluded: string[]): Set<string> {
+    const files = new Set<string>();
+    for (const entry of fs.readdirSync(path.join(root, relative), { withFileTypes: true })) {
+      if (COPY_IGNORED.has(entry.name)) continue;
+
+      const file = path.join(relative, entry.name);
+      if (excluded.includes(path.join(root, file))) continue;
+
+      if (entry.isDirectory()) {
+        this.listFiles(root, file, excluded).forEach((nested) => files.add(nested));
+      } else if (entry.isFile()) {
+        files.add(file);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Recursive copy that leaves out the excluded directories, which may be
+   * inside the workdir being copied. fs.cpSync refuses a target inside its
+   * source even with a filter, so the directories on the way to an excluded
+   * one are walked here and everything else is copied whole.
+   */
+  private copyTree(source: string, target: string, excluded: string[]): void {
+    fs.mkdirSync(target, { recursive: true });
+
+    for (const entry of fs.readdirSync(source, { withFileTypes: true })) {
+      const from = path.join(source, entry.name);
+      const to = path.join(target, entry.name);
+      if (excluded.includes(from)) continue;
+
+      if (entry.isDirectory() && excluded.some((dir) => dir.startsWith(from + path.sep))) {
+        this.copyTree(from, to, excluded);
+      } else {
+        fs.cpSync(from, to, { recursive: true });
+      }
+    }
+  }
+
+  /**
+   * Real paths of the directories a copy leaves out: the sandboxes and the configured ones
+   */
+  private excludedPaths(): string[] {
+    return [this.directory, ...this.excludedDirectories].map((dir) => {
+      try {
+        return fs.realpathSync(dir);
+      } catch {
+        return path.resolve(dir);
+      }
+    });
+  }
+
+  private async noIndexDiff(before: string, after: string): Promise<string> {
+    try {
+      return await this.git(this.directory, ['diff', '--no-index', '--', before, after], false);
+    } catch (error) {
+      // Exit code 1 just means the files differ
+      const stdout = (error as { stdout?: string }).stdout;
+      if (typeof stdout === 'string') return stdout;
+      throw error;
+    }
+  }
+
+  private async git(cwd: string, args: string[], trim: boolean = true): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: GIT_MAX_BUFFER });
+    return trim ? stdout.trim() : stdout;
+  }
+
+  private saveMetadata(sandbox: ClaudeCodeSandbox): void {
+    this.writeAtomic(this.metadataPath(sandbox.sessionId), JSON.stringify(sandbox, null, 2));
+  }
+
+  private writeAtomic(file: string, data: string): void {
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, data);
+    fs.renameSync(tmpFile, file);
+  }
+
+  private sandboxPath(sessionId: string): string {
+    if (!/^[\w.-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.directory, sessionId);
+  }
+
+  private metadataPath(sessionId: string): string {
+    return `${this.sandboxPath(sessionId)}.json`;
+  }
+
+  private manifestPath(sessionId: string): string {
+    return `${this.sandboxPath(sessionId)}.manifest`;
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
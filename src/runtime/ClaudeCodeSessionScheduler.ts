@@ -0,0 +1,222 @@
+/**
+ * Claude Code Session Scheduler
+ * Sits in front of ClaudeCodeProcessSpawner and limits how many Claude Code
+ * processes an agent runs at once, queueing the rest by priority
+ */
+
+import { EventEmitter } from 'events';
+import { ClaudeCodeProcessSpawner } from './ClaudeCodeProcessSpawner';
+import { ClaudeCodeEvent, ClaudeCodeSession, ClaudeCodeSpawnOptions } from '../types/runtime';
+
+export interface SchedulerOptions {
+  /** Process spawner instance */
+  spawner: ClaudeCodeProcessSpawner;
+
+  /** Maximum sessions running at once (defaults to unlimited) */
+  maxConcurrentSessions?: number;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+interface QueuedTask {
+  options: ClaudeCodeSpawnOptions;
+  session: ClaudeCodeSession;
+  priority: number;
+}
+
+/**
+ * FIFO/priority queue with a per-agent concurrency limit
+ */
+export class ClaudeCodeSessionScheduler extends EventEmitter {
+  private spawner: ClaudeCodeProcessSpawner;
+  private maxConcurrentSessions: number;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+  private queue: QueuedTask[];
+  private launching: number = 0;
+
+  constructor(options: SchedulerOptions) {
+    super();
+    this.spawner = options.spawner;
+    this.maxConcurrentSessions = options.maxConcurrentSessions ?? Infinity;
+    this.logger = options.logger || this.defaultLogger;
+    this.queue = [];
+
+    if (this.maxConcurrentSessions < 1) {
+      throw new Error(`maxConcurrentSessions must be at least 1, got ${this.maxConcurrentSessions}`);
+    }
+
+    // A finished session frees a slot
+    this.spawner.on('stopped', () => this.drain());
+  }
+
+  /**
+   * Start a session now if a slot is free, otherwise queue it.
+   * Queued sessions are returned in the 'queued' state and start in place.
+   */
+  async submit(options: ClaudeCodeSpawnOptions): Promise<ClaudeCodeSession> {
+    if (this.queue.length === 0 && this.hasCapacity()) {
+      return this.launch(options);
+    }
+
+    const now = new Date();
+    const session: ClaudeCodeSession = {
+      sessionId: this.spawner.generateSessionId(),
+      agentId: this.spawner.agentId,
+      pid: 0,
+      backend: options.backend || 'pty',
+      workdir: options.workdir || this.spawner.workspace,
+      task: options.task,
+      startedAt: now,
+      lastActivity: now,
+      state: 'queued',
+      outputBuffer: [],
+    };
+
+    const task: QueuedTask = { options, session, priority: options.priority ?? 0 };
+
+    // Higher priority first, FIFO within the same priority
+    const index = this.queue.findIndex((queued) => queued.priority < task.priority);
+    if (index === -1) {
+      this.queue.push(task);
+    } else {
+      this.queue.splice(index, 0, task);
+    }
+    this.updatePositions();
+
+    this.logger('info', 'Claude Code session queued', {
+      sessionId: session.sessionId,
+      position: session.queuePosition,
+      priority: task.priority,
+    });
+
+    this.emit('queued', {
+      type: 'queued',
+      sessionId: session.sessionId,
+      position: session.queuePosition,
+    } as ClaudeCodeEvent);
+
+    return session;
+  }
+
+  /**
+   * Cancel a queued session before it starts
+   */
+  cancel(sessionId: string): boolean {
+    const index = this.queue.findIndex((queued) => queued.session.sessionId === sessionId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [task] = this.queue.splice(index, 1);
+    task.session.state = 'stopped';
+    task.session.queuePosition = undefined;
+    this.updatePositions();
+
+    this.logger('info', 'Queued Claude Code session cancelled', { sessionId });
+
+    this.emit('cancelled', {
+      type: 'cancelled',
+      sessionId,
+    } as ClaudeCodeEvent);
+
+    return true;
+  }
+
+  /**
+   * Cancel every queued session
+   */
+  cancelAll(): void {
+    for (const task of [...this.queue]) {
+      this.cancel(task.session.sessionId);
+    }
+  }
+
+  /**
+   * Get a queued session by ID
+   */
+  getQueuedSession(sessionId: string): ClaudeCodeSession | undefined {
+    return this.queue.find((queued) => queued.session.sessionId === sessionId)?.session;
+  }
+
+  /**
+   * Get all queued sessions in start order
+   */
+  getQueuedSessions(): ClaudeCodeSession[] {
+    return this.queue.map((queued) => queued.session);
+  }
+
+  /**
+   * 1-based queue position, or undefined if the session is not queued
+   */
+  getQueuePosition(sessionId: string): number | undefined {
+    return this.getQueuedSession(sessionId)?.queuePosition;
+  }
+
+  // Private methods
+
+  private hasCapacity(): boolean {
+    return this.spawner.getAllSessions().length + this.launching < this.maxConcurrentSessions;
+  }
+
+  private async launch(options: ClaudeCodeSpawnOptions, reserved?: ClaudeCodeSession): Promise<ClaudeCodeSession> {
+    this.launching++;
+    try {
+      return await this.spawner.spawn(options, reserved);
+    } finally {
+      this.launching--;
+    }
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.hasCapacity()) {
+      const task = this.queue.shift() as QueuedTask;
+      task.session.queuePosition = undefined;
+      this.updatePositions();
+
+      this.logger('info', 'Starting queued Claude Code session', {
+        sessionId: task.session.sessionId,
+      });
+
+      this.launch(task.options, task.session)
+        .catch((error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger('error', 'Failed to start queued Claude Code session', {
+            sessionId: task.session.sessionId,
+            error: message,
+          });
+
+          // The spawner already reported (and stopped) the failures it detected itself
+          const alreadyReported = task.session.state === 'error';
+          task.session.state = 'error';
+          task.session.error = message;
+          if (alreadyReported) return;
+
+          this.emit('error', {
+            type: 'error',
+            sessionId: task.session.sessionId,
+            error: message,
+          } as ClaudeCodeEvent);
+
+          // No process ever ran, so nothing else ends the session for its waiters
+          this.emit('stopped', {
+            type: 'stopped',
+            sessionId: task.session.sessionId,
+          } as ClaudeCodeEvent);
+        })
+        .finally(() => this.drain());
+    }
+  }
+
+  private updatePositions(): void {
+    this.queue.forEach((queued, index) => {
+      queued.session.queuePosition = index + 1;
+    });
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Claude Code Session Store
+ * Durable on-disk registry of sessions, one JSON file per session,
+ * so session history survives gateway restarts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeCodeSession, ClaudeCodeSessionRecord } from '../types/runtime';
+
+export interface SessionStoreOptions {
+  /** Directory holding the session records */
+  directory: string;
+}
+
+/**
+ * Persists ClaudeCodeSessionRecords under an agent's data directory
+ */
+export class ClaudeCodeSessionStore {
+  private directory: string;
+
+  constructor(options: SessionStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  /**
+   * Convert a live session into its persisted form
+   */
+  static toRecord(session: ClaudeCodeSession): ClaudeCodeSessionRecord {
+    return {
+      sessionId: session.sessionId,
+      claudeSessionId: session.claudeSessionId,
+      agentId: session.agentId,
+      backend: session.backend,
+      task: session.task,
+      workdir: session.workdir,
+      state: session.state,
+      startedAt: session.startedAt.toISOString(),
+      lastActivity: session.lastActivity.toISOString(),
+      error: session.error,
+      usage: session.usage,
+    };
+  }
+
+  /**
+   * Convert a persisted record back into a (no longer running) session
+   */
+  static toSession(record: ClaudeCodeSessionRecord): ClaudeCodeSession {
+    return {
+      sessionId: record.sessionId,
+      claudeSessionId: record.claudeSessionId,
+      agentId: record.agentId,
+      pid: 0,
+      backend: record.backend,
+      workdir: record.workdir,
+      task: record.task,
+      startedAt: new Date(record.startedAt),
+      lastActivity: new Date(record.lastActivity),
+      state: record.state,
+      error: record.error,
+      outputBuffer: [],
+      usage: record.usage,
+      ...(record.endedAt ? { endedAt: new Date(record.endedAt) } : {}),
+      ...(record.exitCode !== undefined ? { exitCode: record.exitCode } : {}),
+      ...(record.result !== undefined ? { result: record.result } : {}),
+    };
+  }
+
+  /**
+   * Write a record, replacing any previous version
+   */
+  save(record: ClaudeCodeSessionRecord): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    // Write-then-rename so a crash never leaves a half-written record
+    const file = this.recordPath(record.sessionId);
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(record, null, 2));
+    fs.renameSync(tmpFile, file);
+  }
+
+  /**
+   * Merge changes into an existing record
+   */
+  update(sessionId: string, changes: Partial<ClaudeCodeSessionRecord>): ClaudeCodeSessionRecord | undefined {
+    const record = this.load(sessionId);
+    if (!record) {
+      return undefined;
+    }
+
+    const updated = { ...record, ...changes, sessionId };
+    this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Load a single record
+   */
+  load(sessionId: string): ClaudeCodeSessionRecord | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.recordPath(sessionId), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * List all records, oldest first
+   */
+  list(): ClaudeCodeSessionRecord[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.directory);
+    } catch {
+      return [];
+    }
+
+    const records: ClaudeCodeSessionRecord[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+
+      const record = this.load(path.basename(name, '.json'));
+      if (record) {
+        records.push(record);
+      }
+    }
+
+    return records.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  /**
+   * Remove a record
+   */
+  delete(sessionId: string): void {
+    fs.rmSync(this.recordPath(sessionId), { force: true });
+  }
+
+  private recordPath(sessionId: string): string {
+    if (!/^[\w.-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Claude Code Spawn Adapter
+ * Answers OpenClaw's sessions_spawn for Claude Code agents: turns the payload
+ * into spawn options, runs the session to its result and reports back
+ * through onComplete
+ */
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ClaudeCodeRuntime } from './ClaudeCodeRuntime';
+import { ClaudeCodeRuntimeManager } from './ClaudeCodeRuntimeManager';
+import {
+  ClaudeCodePermissionMode,
+  ClaudeCodeSession,
+  ClaudeCodeSessionsSpawnRequest,
+  ClaudeCodeSessionsSpawnResponse,
+  ClaudeCodeSessionsSpawnResult,
+  ClaudeCodeSpawnOptions,
+} from '../types/runtime';
+
+export interface SpawnAdapterOptions {
+  /** Runtimes of the agents sessions can be spawned on */
+  manager: ClaudeCodeRuntimeManager;
+
+  /** Time a session gets to reach its result (default 3600000) */
+  timeoutMs?: number;
+
+  /** Called for every finished session, after the request's own onComplete */
+  onComplete?: (result: ClaudeCodeSessionsSpawnResult) => void;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_TIMEOUT_MS = 3600000;
+
+const PERMISSION_MODES: ClaudeCodePermissionMode[] = [
+  'default',
+  'bypassPermissions',
+  'acceptEdits',
+  'delegate',
+  'plan',
+  'dontAsk',
+];
+
+/** Tools whose audited path is a file they changed */
+const EDITING_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+/**
+ * sessions_spawn handler for the agents of a runtime manager
+ */
+export class ClaudeCodeSpawnAdapter {
+  private manager: ClaudeCodeRuntimeManager;
+  private timeoutMs: number;
+  private onComplete?: (result: ClaudeCodeSessionsSpawnResult) => void;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+
+  constructor(options: SpawnAdapterOptions) {
+    this.manager = options.manager;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.onComplete = options.onComplete;
+    this.logger = options.logger || this.defaultLogger;
+  }
+
+  /**
+   * Start the task and answer at once; the session runs to its result in
+   * the background, is stopped, and onComplete gets the outcome
+   */
+  async sessionsSpawn(request: ClaudeCodeSessionsSpawnRequest): Promise<ClaudeCodeSessionsSpawnResponse> {
+    const spawnedAt = Date.now();
+
+    let runtime: ClaudeCodeRuntime;
+    let session: ClaudeCodeSession;
+    try {
+      if (!this.manager.hasAgent(request.agentId)) {
+        throw new Error(`Agent ${request.agentId} is not a Claude Code agent`);
+      }
+      runtime = this.manager.getRuntime(request.agentId);
+      session = await runtime.startSession(toSpawnOptions(request));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger('warn', 'sessions_spawn failed', { agentId: request.agentId, error: message });
+      return { success: false, message };
+    }
+
+    this.logger('info', 'sessions_spawn started a session', { agentId: request.agentId, sessionId: session.sessionId });
+
+    this.runToCompletion(runtime, session, request, spawnedAt);
+
+    return {
+      success: true,
+      sessionId: session.sessionId,
+      message: session.state === 'queued'
+        ? `${request.agentId} session ${session.sessionId} queued at position ${session.queuePosition}`
+        : `${request.agentId} session started: ${session.sessionId}`,
+    };
+  }
+
+  // Private methods
+
+  private async runToCompletion(
+    runtime: ClaudeCodeRuntime,
+    session: ClaudeCodeSession,
+    request: ClaudeCodeSessionsSpawnRequest,
+    spawnedAt: number
+  ): Promise<void> {
+    const { sessionId } = session;
+
+    // Listen before anything else is awaited, so a session that ends meanwhile isn't missed
+    const outcome = runtime.waitForCompletion(sessionId, this.timeoutMs).then(
+      (output) => ({ status: 'completed' as const, summary: output.content.trim() }),
+      (error) => ({ status: 'failed' as const, summary: error instanceof Error ? error.message : String(error) })
+    );
+
+    // What the workdir's HEAD was, to also catch changes the session commits
+    const startCommit = await this.git(session.workdir, ['rev-parse', '--verify', 'HEAD'])
+      .then((head) => head.trim())
+      .catch(() => undefined);
+
+    const { status, summary } = await outcome;
+
+    await runtime.stopSession(sessionId).catch((error) => {
+      this.logger('warn', 'Failed to stop spawned session', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    const result: ClaudeCodeSessionsSpawnResult = {
+      status,
+      summary,
+      sessionId,
+      agentId: request.agentId,
+      durationMs: Date.now() - spawnedAt,
+      changedFiles: await this.changedFiles(runtime, session, startCommit),
+    };
+
+    this.logger('info', 'Spawned session finished', {
+      sessionId,
+      status,
+      durationMs: result.durationMs,
+      changedFiles: result.changedFiles.length,
+    });
+
+    for (const onComplete of [request.onComplete, this.onComplete]) {
+      try {
+        onComplete?.(result);
+      } catch (error) {
+        this.logger('error', 'onComplete callback failed', {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * The sandbox diff of an isolated session, else the files its tool calls
+   * edited (relative to the workdir where they're inside it) and whatever
+   * git reports changed in the workdir since the session started
+   */
+  private async changedFiles(runtime: ClaudeCodeRuntime, session: ClaudeCodeSession, startCommit?: string): Promise<string[]> {
+    try {
+      if (runtime.getSandbox(session.sessionId)) {
+        const diff = await runtime.getSandboxDiff(session.sessionId);
+        return diff.files.map((file) => file.path);
+      }
+
+      const edited = runtime
+        .getToolAuditLog({ sessionId: session.sessionId })
+        .filter((entry) => EDITING_TOOLS.has(entry.toolName) && entry.outcome === 'ok' && entry.path)
+        .map((entry) => {
+          const relative = path.relative(session.workdir, entry.path as string);
+          return relative.startsWith('..') || path.isAbsolute(relative) ? (entry.path as string) : relative;
+        });
+      return [...new Set([...edited, ...(await this.gitChangedFiles(session.workdir, startCommit))])];
+    } catch (error) {
+      this.logger('warn', 'Failed to list changed files', {
+        sessionId: session.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Files of a git workdir that differ from the start commit (or are
+   * uncommitted changes, without one) plus untracked files; none outside git
+   */
+  private async gitChangedFiles(workdir: string, startCommit?: string): Promise<string[]> {
+    const [changed, untracked] = await Promise.all([
+      this.git(workdir, ['diff', '--name-only', '--relative', '-z', startCommit || 'HEAD']).catch(() => ''),
+      this.git(workdir, ['ls-files', '--others', '--exclude-standard', '-z']).catch(() => ''),
+    ]);
+    return `${changed}${untracked}`.split('\0').filter(Boolean);
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd });
+    return stdout;
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
+
+/**
+ * Spawn options for a sessions_spawn payload; throws on invalid options
+ */
+export function toSpawnOptions(request: ClaudeCodeSessionsSpawnRequest): ClaudeCodeSpawnOptions {
+  if (!request.task || !request.task.trim()) {
+    throw new Error('sessions_spawn needs a task');
+  }
+
+  const options = request.options || {};
+  const spawnOptions: ClaudeCodeSpawnOptions = { task: request.task };
+
+  // An explicit swarmMode wins over the agent's agentTeams either way
+  if (options.swarmMode !== undefined) {
+    spawnOptions.enableTeams = options.swarmMode;
+  }
+  if (options.teammates !== undefined) {
+    if (!Number.isInteger(options.teammates) || options.teammates < 1) {
+      throw new Error('options.teammates must be a positive integer');
+    }
+    if (options.swarmMode === false) {
+      throw new Error('options.teammates needs swarmMode');
+    }
+    spawnOptions.enableTeams = true;
+    spawnOptions.teammates = options.teammates;
+  }
+
+  if (options.permissionMode !== undefined) {
+    if (!PERMISSION_MODES.includes(options.permissionMode)) {
+      throw new Error(`options.permissionMode must be one of ${PERMISSION_MODES.join(', ')}`);
+    }
+    spawnOptions.permissionMode = options.permissionMode;
+  }
+
+  return spawnOptions;
+}
@@ -0,0 +1,177 @@
+/**
+ * Claude Code Tool Audit Log
+ * Append-only record of the tool calls sessions make (file edits, shell
+ * commands, MCP calls) and how they turned out, read off the stream-json
+ * output; the TUI's screen doesn't show calls reliably enough to audit
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedOutput } from './ClaudeCodeCommunicator';
+import { matchGlob } from '../utils/glob';
+import { mcpServerOf, toolInputPath } from '../utils/toolInput';
+import { ClaudeCodeToolAuditEntry, ClaudeCodeToolAuditQuery } from '../types/runtime';
+
+export interface ToolAuditLogOptions {
+  /** JSONL log; nothing is recorded without one */
+  path?: string;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+/** Longest string kept from a tool's input or output */
+const MAX_TEXT_LENGTH = 2000;
+
+interface PendingCall {
+  entry: ClaudeCodeToolAuditEntry;
+  startedAt: number;
+}
+
+/**
+ * Appends each session's tool calls to the log as they are made, and again
+ * with their outcome once the result arrives
+ */
+export class ClaudeCodeToolAuditLog {
+  private path?: string;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+  /** Session ID -> tool use ID -> call waiting for its result */
+  private pending: Map<string, Map<string, PendingCall>> = new Map();
+
+  constructor(options: ToolAuditLogOptions = {}) {
+    this.path = options.path;
+    this.logger = options.logger || this.defaultLogger;
+  }
+
+  /**
+   * Record a tool call as 'unfinished' right away, so a crash mid-tool still
+   * leaves it in the log, then record its outcome when the result arrives
+   */
+  observe(sessionId: string, output: ParsedOutput, workdir?: string): void {
+    if (!this.path) return;
+
+    if (output.type === 'tool-use') {
+      const filePath = toolInputPath(output.input);
+      const entry: ClaudeCodeToolAuditEntry = {
+        timestamp: new Date().toISOString(),
+        sessionId,
+        toolUseId: output.toolUseId,
+        toolName: output.name,
+        input: truncateStrings(output.input),
+        ...(filePath !== undefined && { path: workdir ? path.resolve(workdir, filePath) : filePath }),
+        ...(output.name === 'Bash' && typeof output.input.command === 'string' && { command: output.input.command }),
+        ...(mcpServerOf(output.name) && { mcpServer: mcpServerOf(output.name) }),
+        outcome: 'unfinished',
+      };
+
+      const calls = this.pending.get(sessionId) || new Map<string, PendingCall>();
+      calls.set(output.toolUseId, { entry, startedAt: Date.now() });
+      this.pending.set(sessionId, calls);
+      this.append(entry);
+      return;
+    }
+
+    if (output.type === 'tool-result') {
+      const call = this.pending.get(sessionId)?.get(output.toolUseId);
+      if (!call) return;
+      this.pending.get(sessionId)?.delete(output.toolUseId);
+
+      this.append({
+        ...call.entry,
+        outcome: output.isError ? 'error' : 'ok',
+        output: truncate(output.content),
+        durationMs: Date.now() - call.startedAt,
+      });
+    }
+  }
+
+  /**
+   * Forget the calls of a session (or of a process being replaced) that never
+   * got a result; they stay recorded as 'unfinished'
+   */
+  endSession(sessionId: string): void {
+    this.pending.delete(sessionId);
+  }
+
+  /**
+   * Recorded calls matching the query, oldest first
+   */
+  read(query: ClaudeCodeToolAuditQuery = {}): ClaudeCodeToolAuditEntry[] {
+    if (!this.path) return [];
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.path, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const from = query.from !== undefined ? new Date(query.from).getTime() : -Infinity;
+    const to = query.to !== undefined ? new Date(query.to).getTime() : Infinity;
+
+    // A call's outcome line replaces the line written when it was made
+    const calls = new Map<string, ClaudeCodeToolAuditEntry>();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: ClaudeCodeToolAuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A line cut short by a crash
+        continue;
+      }
+      calls.set(`${entry.sessionId}\n${entry.toolUseId}`, entry);
+    }
+
+    const entries = [...calls.values()].filter((entry) => {
+      const at = Date.parse(entry.timestamp);
+      if (at < from || at >= to) return false;
+      if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+      return !query.tool || matchGlob(query.tool, entry.toolName);
+    });
+
+    // Outcomes are appended as calls finish; order them by when they were made
+    return entries.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  }
+
+  // Private methods
+
+  private append(entry: ClaudeCodeToolAuditEntry): void {
+    if (!this.path) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.path), { recursive: true });
+      fs.appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      this.logger('error', 'Failed to record tool call', { sessionId: entry.sessionId, toolName: entry.toolName, error });
+    }
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH
+    ? `${text.slice(0, MAX_TEXT_LENGTH)}… (${text.length - MAX_TEXT_LENGTH} more characters)`
+    : text;
+}
+
+/**
+ * Copy of a tool input with long strings cut short, at any depth
+ */
+function truncateStrings(input: Record<string, unknown>): Record<string, unknown> {
+  const visit = (value: unknown): unknown => {
+    if (typeof value === 'string') return truncate(value);
+    if (Array.isArray(value)) return value.map(visit);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visit(item)]));
+    }
+    return value;
+  };
+  return visit(input) as Record<string, unknown>;
+}
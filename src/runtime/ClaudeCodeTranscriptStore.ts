@@ -0,0 +1,155 @@
+/**
+ * Claude Code Transcript Store
+ * Complete per-session transcripts: a timestamped JSONL log of input, output
+ * and lifecycle events, plus an ANSI-stripped plain-text view
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { stripAnsi } from '../utils/ansi';
+import { ClaudeCodeEvent, ClaudeCodeTranscriptEntry } from '../types/runtime';
+
+export interface TranscriptStoreOptions {
+  /** Directory holding the transcripts */
+  directory: string;
+}
+
+// An escape sequence cut off at the end of a chunk
+// eslint-disable-next-line no-control-regex
+const PARTIAL_ESCAPE = /\x1b(?:\[[0-?]*[ -/]*|\][^\x07\x1b]*|[P_^][^\x1b]*)?$/;
+
+/**
+ * Appends to and reads back session transcripts under an agent's data directory
+ */
+export class ClaudeCodeTranscriptStore {
+  private directory: string;
+  private pendingEscapes: Map<string, string>;
+
+  constructor(options: TranscriptStoreOptions) {
+    this.directory = options.directory;
+    this.pendingEscapes = new Map();
+  }
+
+  /**
+   * Append an entry to the JSONL log and the plain-text view
+   */
+  append(sessionId: string, entry: ClaudeCodeTranscriptEntry): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.appendFileSync(this.transcriptPath(sessionId, 'jsonl'), `${JSON.stringify(entry)}\n`);
+
+    const text = this.toText(sessionId, entry);
+    if (text) {
+      fs.appendFileSync(this.transcriptPath(sessionId, 'txt'), text);
+    }
+  }
+
+  /**
+   * All entries of a transcript, oldest first (empty if there is none)
+   */
+  read(sessionId: string): ClaudeCodeTranscriptEntry[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.transcriptPath(sessionId, 'jsonl'), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: ClaudeCodeTranscriptEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * The last `limit` entries of a transcript
+   */
+  tail(sessionId: string, limit: number): ClaudeCodeTranscriptEntry[] {
+    return limit > 0 ? this.read(sessionId).slice(-limit) : [];
+  }
+
+  /**
+   * The plain-text view of a transcript (empty if there is none)
+   */
+  readText(sessionId: string): string {
+    try {
+      return fs.readFileSync(this.transcriptPath(sessionId, 'txt'), 'utf-8');
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Forget per-session state once a session has ended
+   */
+  close(sessionId: string): void {
+    this.pendingEscapes.delete(sessionId);
+  }
+
+  /**
+   * Remove a transcript
+   */
+  delete(sessionId: string): void {
+    this.close(sessionId);
+    fs.rmSync(this.transcriptPath(sessionId, 'jsonl'), { force: true });
+    fs.rmSync(this.transcriptPath(sessionId, 'txt'), { force: true });
+  }
+
+  /**
+   * Path of a transcript file
+   */
+  transcriptPath(sessionId: string, format: 'jsonl' | 'txt'): string {
+    if (!/^[\w.-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.directory, `${sessionId}.${format}`);
+  }
+
+  // Private methods
+
+  private toText(sessionId: string, entry: ClaudeCodeTranscriptEntry): string {
+    switch (entry.type) {
+      case 'output': {
+        // Hold back an escape sequence split across chunks until the rest arrives
+        const data = (this.pendingEscapes.get(sessionId) || '') + entry.data;
+        const partial = data.match(PARTIAL_ESCAPE)?.[0] || '';
+        this.pendingEscapes.set(sessionId, partial);
+        return stripAnsi(data.slice(0, data.length - partial.length));
+      }
+      case 'input':
+        return entry.kind === 'interrupt'
+          ? `\n[${entry.timestamp}] ^C\n`
+          : `\n[${entry.timestamp}] > ${stripAnsi(entry.data)}\n`;
+      case 'event':
+        return `\n[${entry.timestamp}] -- ${this.describe(entry.event)}\n`;
+    }
+  }
+
+  private describe(event: ClaudeCodeEvent): string {
+    switch (event.type) {
+      case 'started':
+        return `started (pid ${event.pid})`;
+      case 'session-id':
+        return `Claude Code session ${event.claudeSessionId}`;
+      case 'completed':
+        return 'completed';
+      case 'error':
+        return `error: ${event.error}`;
+      case 'stopped':
+        return event.exitCode !== undefined ? `stopped (exit code ${event.exitCode})` : 'stopped';
+      case 'restarting':
+        return `restarting (attempt ${event.attempt})`;
+      case 'gave-up':
+        return `gave up after ${event.attempts} restarts`;
+      case 'watchdog':
+        return `watchdog ${event.action} (${event.reason})`;
+      default:
+        return event.type;
+    }
+  }
+}
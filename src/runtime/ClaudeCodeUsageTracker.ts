@@ -0,0 +1,437 @@
+/**
+ * Claude Code Usage Tracker
+ * Adds up tokens, cost and turns of stream-json sessions per session and per
+ * day, records them in a ledger and enforces the agent's budgets
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeCodeProcessSpawner } from './ClaudeCodeProcessSpawner';
+import { ClaudeCodeCommunicator, ParsedResultOutput, ParsedUsageOutput } from './ClaudeCodeCommunicator';
+import {
+  ClaudeCodeBudget,
+  ClaudeCodeBudgetsConfig,
+  ClaudeCodeEvent,
+  ClaudeCodeUsage,
+  ClaudeCodeUsageEntry,
+  ClaudeCodeUsageQuery,
+  ClaudeCodeUsageReport,
+  ClaudeCodeUsageTotals,
+} from '../types/runtime';
+
+export interface UsageTrackerOptions {
+  /** Process spawner instance */
+  spawner: ClaudeCodeProcessSpawner;
+
+  /** Communicator whose parsed output carries the usage */
+  communicator: ClaudeCodeCommunicator;
+
+  /** Limits to enforce */
+  budgets?: ClaudeCodeBudgetsConfig;
+
+  /** JSONL ledger; without one usage is only kept in memory */
+  ledgerPath?: string;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+type BudgetScope = 'session' | 'daily';
+
+const DEFAULT_WARN_AT = 0.8;
+
+interface SessionAccount {
+  totals: ClaudeCodeUsageTotals;
+
+  /** Usage of the current turn's model calls by message ID, until its result */
+  turn: Map<string, ClaudeCodeUsage>;
+
+  /** Cumulative cost and turns the current process last reported */
+  reportedCostUsd: number;
+  reportedTurns: number;
+
+  warned: Set<BudgetScope>;
+  exceeded: Set<BudgetScope>;
+
+  /** The current turn was interrupted for being over budget */
+  interrupted: boolean;
+  stopping: boolean;
+}
+
+/**
+ * Usage accounting and budget enforcement for an agent's sessions
+ */
+export class ClaudeCodeUsageTracker extends EventEmitter {
+  private spawner: ClaudeCodeProcessSpawner;
+  private budgets: ClaudeCodeBudgetsConfig;
+  private ledgerPath?: string;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+  private accounts: Map<string, SessionAccount> = new Map();
+  private day: string;
+  private daily: ClaudeCodeUsageTotals;
+  private dailyWarned: boolean = false;
+
+  constructor(options: UsageTrackerOptions) {
+    super();
+    this.spawner = options.spawner;
+    this.budgets = options.budgets || {};
+    this.ledgerPath = options.ledgerPath;
+    this.logger = options.logger || this.defaultLogger;
+
+    // Pick up what today's earlier runs spent
+    this.day = dayOf(new Date());
+    this.daily = this.query({ from: `${this.day}T00:00:00.000Z` }).total;
+
+    options.communicator.on('usage', ({ sessionId, output }: { sessionId: string; output: ParsedUsageOutput }) => {
+      this.recordCall(sessionId, output);
+    });
+
+    options.communicator.on('result', ({ sessionId, output }: { sessionId: string; output: ParsedResultOutput }) => {
+      this.recordResult(sessionId, output);
+    });
+
+    // A respawned process reports its cumulative cost from zero again
+    this.spawner.on('restarting', (event: ClaudeCodeEvent) => {
+      const account = this.accounts.get(event.sessionId);
+      if (!account) return;
+      this.commit(event.sessionId, account, { costUsd: 0, numTurns: 0 });
+      account.reportedCostUsd = 0;
+      account.reportedTurns = 0;
+    });
+
+    // The last result may be parsed after 'stopped'; the account goes once output has ended
+    options.communicator.on('output-ended', ({ sessionId }: { sessionId: string }) => {
+      const account = this.accounts.get(sessionId);
+      if (!account) return;
+      this.commit(sessionId, account, { costUsd: 0, numTurns: 0 });
+      this.accounts.delete(sessionId);
+    });
+  }
+
+  /**
+   * Usage of a live session so far, the running turn included
+   */
+  getSessionUsage(sessionId: string): ClaudeCodeUsageTotals | undefined {
+    const account = this.accounts.get(sessionId);
+    if (!account) return undefined;
+
+    const usage = { ...account.totals };
+    for (const call of account.turn.values()) addCall(usage, call);
+    return usage;
+  }
+
+  /**
+   * What the agent has spent today (UTC), finished turns only
+   */
+  getDailyUsage(): ClaudeCodeUsageTotals {
+    this.rollDay();
+    return { ...this.daily };
+  }
+
+  /**
+   * Whether today's budget is used up, so no new session should start
+   */
+  isOverDailyBudget(): boolean {
+    this.rollDay();
+    return !!this.budgets.daily && ratio(this.budgets.daily, spent(this.daily)) >= 1;
+  }
+
+  /**
+   * Ledger entries matching the query, added up
+   */
+  query(query: ClaudeCodeUsageQuery = {}): ClaudeCodeUsageReport {
+    const from = query.from !== undefined ? new Date(query.from).getTime() : -Infinity;
+    const to = query.to !== undefined ? new Date(query.to).getTime() : Infinity;
+    const report: ClaudeCodeUsageReport = { total: emptyTotals(), bySession: {}, byDay: {} };
+
+    for (const entry of this.readLedger()) {
+      const at = Date.parse(entry.timestamp);
+      if (at < from || at >= to) continue;
+      if (query.sessionId && entry.sessionId !== query.sessionId) continue;
+
+      const day = dayOf(new Date(at));
+      report.bySession[entry.sessionId] = report.bySession[entry.sessionId] || emptyTotals();
+      report.byDay[day] = report.byDay[day] || emptyTotals();
+
+      for (const totals of [report.total, report.bySession[entry.sessionId], report.byDay[day]]) {
+        addEntry(totals, entry);
+      }
+    }
+    return report;
+  }
+
+  // Private methods
+
+  private recordCall(sessionId: string, output: ParsedUsageOutput): void {
+    const account = this.account(sessionId);
+    account.turn.set(output.messageId ?? `call-${account.turn.size}`, output.usage);
+    this.enforce(sessionId, account, true);
+  }
+
+  private recordResult(sessionId: string, output: ParsedResultOutput): void {
+    const account = this.accounts.get(sessionId);
+
+    // TUI results carry no usage at all
+    if (!account && output.costUsd === undefined && !output.usage) return;
+
+    const current = account || this.account(sessionId);
+    this.commit(sessionId, current, {
+      costUsd: increase(current.reportedCostUsd, output.costUsd),
+      numTurns: increase(current.reportedTurns, output.numTurns),
+      usage: output.usage,
+      isResult: true,
+    });
+    current.reportedCostUsd = output.costUsd ?? current.reportedCostUsd;
+    current.reportedTurns = output.numTurns ?? current.reportedTurns;
+    current.interrupted = false;
+
+    this.enforce(sessionId, current, false);
+  }
+
+  /**
+   * Close the running turn into the totals and the ledger. Tokens come from
+   * the turn's model calls, or from the result when there were none.
+   */
+  private commit(
+    sessionId: string,
+    account: SessionAccount,
+    delta: { costUsd: number; numTurns: number; usage?: ClaudeCodeUsage; isResult?: boolean }
+  ): void {
+    const calls = [...account.turn.values()];
+    account.turn.clear();
+    if (calls.length === 0 && delta.usage) calls.push(delta.usage);
+
+    const entry: ClaudeCodeUsageEntry = {
+      timestamp: new Date().toISOString(),
+      sessionId,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd: delta.costUsd,
+      numTurns: delta.numTurns,
+    };
+    for (const call of calls) addCall(entry, call);
+
+    // A stop between turns adds nothing
+    if (!delta.isResult && calls.length === 0) return;
+
+    this.rollDay();
+    addEntry(account.totals, entry);
+    addEntry(this.daily, entry);
+    this.append(entry);
+
+    const session = this.spawner.getSession(sessionId);
+    if (session) session.usage = account.totals;
+
+    this.emit('usage', { type: 'usage', sessionId, usage: { ...account.totals } } as ClaudeCodeEvent);
+  }
+
+  /**
+   * Warn once per limit, then act on a session over it: stop it, or
+   * interrupt each of its turns that gets going while over
+   */
+  private enforce(sessionId: string, account: SessionAccount, midTurn: boolean): void {
+    if (account.stopping) return;
+
+    const turnTokens = (usage: Iterable<ClaudeCodeUsage>) =>
+      [...usage].reduce((sum, call) => sum + call.inputTokens + call.outputTokens, 0);
+    const sessionSpent = spent(account.totals);
+    sessionSpent.tokens += turnTokens(account.turn.values());
+    const dailySpent = spent(this.daily);
+    for (const other of this.accounts.values()) dailySpent.tokens += turnTokens(other.turn.values());
+
+    const checks: [BudgetScope, ClaudeCodeBudget | undefined, { costUsd: number; tokens: number }][] = [
+      ['session', this.budgets.session, sessionSpent],
+      ['daily', this.budgets.daily, dailySpent],
+    ];
+
+    for (const [scope, budget, spentSoFar] of checks) {
+      if (!budget) continue;
+      const used = ratio(budget, spentSoFar);
+      const action = budget.action || 'stop';
+
+      if (used >= 1) {
+        if (!account.exceeded.has(scope)) {
+          account.exceeded.add(scope);
+          this.logger('warn', 'Claude Code session is over budget', { sessionId, scope, action, ...spentSoFar });
+          this.emit('budget', {
+            type: 'budget',
+            sessionId,
+            scope,
+            level: 'exceeded',
+            action,
+            spent: spentSoFar,
+            budget,
+          } as ClaudeCodeEvent);
+        } else if (action === 'stop' || !midTurn || account.interrupted) {
+          continue;
+        }
+        this.act(sessionId, account, action, midTurn);
+        if (account.stopping) return;
+      } else if (used >= (budget.warnAt ?? DEFAULT_WARN_AT)) {
+        const warned = scope === 'daily' ? this.dailyWarned : account.warned.has(scope);
+        if (warned) continue;
+        if (scope === 'daily') this.dailyWarned = true;
+        else account.warned.add(scope);
+
+        this.logger('info', 'Claude Code session is nearing its budget', { sessionId, scope, ...spentSoFar });
+        this.emit('budget', {
+          type: 'budget',
+          sessionId,
+          scope,
+          level: 'warning',
+          spent: spentSoFar,
+          budget,
+        } as ClaudeCodeEvent);
+      }
+    }
+  }
+
+  private act(sessionId: string, account: SessionAccount, action: 'stop' | 'interrupt', midTurn: boolean): void {
+    try {
+      if (action === 'stop') {
+        account.stopping = true;
+        this.spawner.stop(sessionId).catch((error) => {
+          this.logger('error', 'Failed to stop session over budget', {
+            sessionId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      } else if (midTurn) {
+        // Between turns there is nothing to interrupt; the next turn is
+        account.interrupted = true;
+        this.spawner.interrupt(sessionId);
+      }
+    } catch (error) {
+      this.logger('error', 'Budget action failed', {
+        sessionId,
+        action,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private account(sessionId: string): SessionAccount {
+    let account = this.accounts.get(sessionId);
+    if (!account) {
+      account = {
+        totals: emptyTotals(),
+        turn: new Map(),
+        reportedCostUsd: 0,
+        reportedTurns: 0,
+        warned: new Set(),
+        exceeded: new Set(),
+        interrupted: false,
+        stopping: false,
+      };
+      this.accounts.set(sessionId, account);
+    }
+    return account;
+  }
+
+  /**
+   * Start a new day's totals after midnight (UTC)
+   */
+  private rollDay(): void {
+    const today = dayOf(new Date());
+    if (today === this.day) return;
+
+    this.day = today;
+    this.daily = emptyTotals();
+    this.dailyWarned = false;
+    for (const account of this.accounts.values()) {
+      account.exceeded.delete('daily');
+    }
+  }
+
+  private append(entry: ClaudeCodeUsageEntry): void {
+    if (!this.ledgerPath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.ledgerPath), { recursive: true });
+      fs.appendFileSync(this.ledgerPath, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      this.logger('error', 'Failed to record usage', { sessionId: entry.sessionId, error });
+    }
+  }
+
+  private readLedger(): ClaudeCodeUsageEntry[] {
+    if (!this.ledgerPath) return [];
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.ledgerPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: ClaudeCodeUsageEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash
+      }
+    }
+    return entries;
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
+
+function emptyTotals(): ClaudeCodeUsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+    numTurns: 0,
+  };
+}
+
+function addCall(totals: ClaudeCodeUsageTotals, call: ClaudeCodeUsage): void {
+  totals.inputTokens += call.inputTokens;
+  totals.outputTokens += call.outputTokens;
+  totals.cacheCreationInputTokens += call.cacheCreationInputTokens ?? 0;
+  totals.cacheReadInputTokens += call.cacheReadInputTokens ?? 0;
+}
+
+function addEntry(totals: ClaudeCodeUsageTotals, entry: ClaudeCodeUsageTotals): void {
+  addCall(totals, entry);
+  totals.costUsd += entry.costUsd;
+  totals.numTurns += entry.numTurns;
+}
+
+/**
+ * Growth of a cumulative counter; a lower value means the count started over
+ */
+function increase(previous: number, current: number | undefined): number {
+  if (current === undefined) return 0;
+  return current >= previous ? current - previous : current;
+}
+
+function spent(totals: ClaudeCodeUsageTotals): { costUsd: number; tokens: number } {
+  return { costUsd: totals.costUsd, tokens: totals.inputTokens + totals.outputTokens };
+}
+
+/**
+ * How much of a budget is used, by whichever limit is closest
+ */
+function ratio(budget: ClaudeCodeBudget, used: { costUsd: number; tokens: number }): number {
+  return Math.max(
+    budget.maxCostUsd !== undefined ? used.costUsd / budget.maxCostUsd : 0,
+    budget.maxTokens !== undefined ? used.tokens / budget.maxTokens : 0
+  );
+}
+
+function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,158 @@
+/**
+ * Claude Code Watchdog
+ * Periodically checks running sessions: marks quiet ones idle and stops or
+ * interrupts sessions that stay idle too long or exceed their wall-clock limit
+ */
+
+import { EventEmitter } from 'events';
+import { ClaudeCodeProcessSpawner } from './ClaudeCodeProcessSpawner';
+import { ClaudeCodeEvent, ClaudeCodeSession, ClaudeCodeWatchdogConfig } from '../types/runtime';
+
+export interface WatchdogOptions {
+  /** Process spawner instance */
+  spawner: ClaudeCodeProcessSpawner;
+
+  /** Watchdog configuration */
+  config: ClaudeCodeWatchdogConfig;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+type WatchdogReason = 'idle-timeout' | 'max-runtime';
+
+const DEFAULT_IDLE_AFTER_MS = 60000;
+const DEFAULT_CHECK_INTERVAL_MS = 5000;
+
+/**
+ * Idle and wall-clock supervision for an agent's sessions
+ */
+export class ClaudeCodeWatchdog extends EventEmitter {
+  private spawner: ClaudeCodeProcessSpawner;
+  private config: ClaudeCodeWatchdogConfig;
+  private logger: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+  private timer?: NodeJS.Timeout;
+  private handled: Map<string, Set<WatchdogReason>>;
+
+  constructor(options: WatchdogOptions) {
+    super();
+    this.spawner = options.spawner;
+    this.config = options.config;
+    this.logger = options.logger || this.defaultLogger;
+    this.handled = new Map();
+
+    this.spawner.on('stopped', (event: ClaudeCodeEvent) => {
+      this.handled.delete(event.sessionId);
+    });
+  }
+
+  /**
+   * Start periodic checks
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.check(), this.config.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS);
+
+    // Never keep the gateway alive just for the watchdog
+    this.timer.unref();
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run one pass over all sessions
+   */
+  check(now: Date = new Date()): void {
+    for (const session of this.spawner.getAllSessions()) {
+      if (session.state === 'restarting') continue;
+
+      const quietMs = now.getTime() - session.lastActivity.getTime();
+      const runtimeMs = now.getTime() - session.startedAt.getTime();
+      const idleAfterMs = this.config.idleAfterMs ?? DEFAULT_IDLE_AFTER_MS;
+
+      if (session.state === 'running' && quietMs >= idleAfterMs) {
+        session.state = 'idle';
+        this.logger('debug', 'Claude Code session went idle', { sessionId: session.sessionId, quietMs });
+
+        this.emit('idle', {
+          type: 'idle',
+          sessionId: session.sessionId,
+          idleMs: quietMs,
+        } as ClaudeCodeEvent);
+      }
+
+      const maxRuntimeMs = session.maxRuntimeMs ?? this.config.maxRuntimeMs;
+      if (maxRuntimeMs !== undefined && runtimeMs >= maxRuntimeMs) {
+        this.enforce(session, 'max-runtime', runtimeMs);
+        continue;
+      }
+
+      if (session.state === 'idle' && this.config.idleTimeoutMs !== undefined && quietMs >= this.config.idleTimeoutMs) {
+        this.enforce(session, 'idle-timeout', quietMs);
+      } else if (session.state !== 'idle') {
+        // Activity since the last idle intervention re-arms it
+        this.handled.get(session.sessionId)?.delete('idle-timeout');
+      }
+    }
+  }
+
+  // Private methods
+
+  private enforce(session: ClaudeCodeSession, reason: WatchdogReason, elapsedMs: number): void {
+    const handled = this.handled.get(session.sessionId) || new Set<WatchdogReason>();
+    if (handled.has(reason)) return;
+    handled.add(reason);
+    this.handled.set(session.sessionId, handled);
+
+    const action = this.config.action || 'stop';
+
+    this.logger('warn', 'Watchdog intervening in Claude Code session', {
+      sessionId: session.sessionId,
+      action,
+      reason,
+      elapsedMs,
+    });
+
+    this.emit('watchdog', {
+      type: 'watchdog',
+      sessionId: session.sessionId,
+      action,
+      reason,
+      elapsedMs,
+    } as ClaudeCodeEvent);
+
+    try {
+      if (action === 'interrupt') {
+        this.spawner.interrupt(session.sessionId);
+      } else {
+        this.spawner.stop(session.sessionId).catch((error) => {
+          this.logger('error', 'Watchdog failed to stop session', {
+            sessionId: session.sessionId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+    } catch (error) {
+      this.logger('error', 'Watchdog action failed', {
+        sessionId: session.sessionId,
+        action,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private defaultLogger(level: string, message: string, meta?: any): void {
+    const timestamp = new Date().toISOString();
+    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
+    console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${metaStr}`);
+  }
+}
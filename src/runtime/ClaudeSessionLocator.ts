@@ -0,0 +1,136 @@
+/**
+ * Claude Session Locator
+ * Finds the Claude Code CLI's own session UUID by watching the session
+ * transcripts it writes under ~/.claude/projects/<encoded workdir>/
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface ClaudeSessionLocatorOptions {
+  /** Claude config directory (defaults to $CLAUDE_CONFIG_DIR or ~/.claude) */
+  configDir?: string;
+
+  /** Poll interval while waiting for a session file */
+  pollIntervalMs?: number;
+}
+
+export interface SessionFileSnapshot {
+  /** Session file name -> mtime in ms */
+  files: Map<string, number>;
+}
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Locates Claude Code session files for a working directory
+ */
+export class ClaudeSessionLocator {
+  private configDir: string;
+  private pollIntervalMs: number;
+
+  constructor(options: ClaudeSessionLocatorOptions = {}) {
+    this.configDir = options.configDir || process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+    this.pollIntervalMs = options.pollIntervalMs ?? 500;
+  }
+
+  /**
+   * Check whether a string looks like a Claude Code session UUID
+   */
+  static isClaudeSessionId(id: string): boolean {
+    return SESSION_ID_PATTERN.test(id);
+  }
+
+  /**
+   * Directory where Claude Code keeps session files for a workdir
+   */
+  projectDir(workdir: string): string {
+    return path.join(this.configDir, 'projects', path.resolve(workdir).replace(/[^a-zA-Z0-9]/g, '-'));
+  }
+
+  /**
+   * Record the session files that exist before a process starts
+   */
+  snapshot(workdir: string): SessionFileSnapshot {
+    const files = new Map<string, number>();
+    for (const [name, mtime] of this.listSessionFiles(workdir)) {
+      files.set(name, mtime);
+    }
+    return { files };
+  }
+
+  /**
+   * Wait for a session file that was created or touched after the snapshot.
+   * New files win over modified ones (a --continue appends to an existing file).
+   * Sessions for which isClaimed returns true belong to another process and are passed over.
+   */
+  async waitForSession(
+    workdir: string,
+    before: SessionFileSnapshot,
+    timeoutMs: number,
+    isCancelled: () => boolean = () => false,
+    isClaimed: (claudeSessionId: string) => boolean = () => false
+  ): Promise<string | undefined> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline && !isCancelled()) {
+      const found = this.findChanged(workdir, before, isClaimed);
+      if (found) {
+        return found;
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    return undefined;
+  }
+
+  private findChanged(
+    workdir: string,
+    before: SessionFileSnapshot,
+    isClaimed: (claudeSessionId: string) => boolean
+  ): string | undefined {
+    let created: { id: string; mtime: number } | undefined;
+    let modified: { id: string; mtime: number } | undefined;
+
+    for (const [name, mtime] of this.listSessionFiles(workdir)) {
+      const id = path.basename(name, '.jsonl');
+      if (isClaimed(id)) {
+        continue;
+      }
+      const previous = before.files.get(name);
+
+      if (previous === undefined) {
+        if (!created || mtime > created.mtime) created = { id, mtime };
+      } else if (mtime > previous) {
+        if (!modified || mtime > modified.mtime) modified = { id, mtime };
+      }
+    }
+
+    return (created || modified)?.id;
+  }
+
+  private listSessionFiles(workdir: string): Array<[string, number]> {
+    const dir = this.projectDir(workdir);
+
+    let names: string[];
+    try {
+      names = fs.readdirSync(dir);
+    } catch {
+      return [];
+    }
+
+    const result: Array<[string, number]> = [];
+    for (const name of names) {
+      if (!name.endsWith('.jsonl') || !ClaudeSessionLocator.isClaudeSessionId(path.basename(name, '.jsonl'))) {
+        continue;
+      }
+      try {
+        result.push([name, fs.statSync(path.join(dir, name)).mtimeMs]);
+      } catch {
+        // File vanished between readdir and stat
+      }
+    }
+    return result;
+  }
+}
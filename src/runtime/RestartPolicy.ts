@@ -0,0 +1,70 @@
+/**
+ * Restart Policy
+ * Decides whether a Claude Code process that exited on its own should be
+ * respawned, and how long to wait before each attempt
+ */
+
+import { ClaudeCodeRestartPolicy } from '../types/runtime';
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60000;
+const DEFAULT_MULTIPLIER = 2;
+
+/**
+ * Evaluates a ClaudeCodeRestartPolicy
+ */
+export class RestartPolicy {
+  private config: ClaudeCodeRestartPolicy;
+
+  constructor(config: ClaudeCodeRestartPolicy = { mode: 'never' }) {
+    this.config = config;
+  }
+
+  /**
+   * Maximum restart attempts per session
+   */
+  get maxRetries(): number {
+    return this.config.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Whether the policy covers this kind of exit at all, ignoring the retry budget
+   */
+  appliesTo(failed: boolean): boolean {
+    switch (this.config.mode) {
+      case 'always':
+        return true;
+      case 'on-failure':
+        return failed;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Whether an unrequested exit should be followed by restart number `attempt` (1-based)
+   */
+  shouldRestart(failed: boolean, attempt: number): boolean {
+    return this.appliesTo(failed) && attempt <= this.maxRetries;
+  }
+
+  /**
+   * Exponential backoff delay before restart number `attempt` (1-based)
+   */
+  delayFor(attempt: number): number {
+    const backoff = this.config.backoff || {};
+    const initial = backoff.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+    const max = backoff.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    const multiplier = backoff.multiplier ?? DEFAULT_MULTIPLIER;
+
+    return Math.min(initial * Math.pow(multiplier, Math.max(0, attempt - 1)), max);
+  }
+
+  /**
+   * Whether an exit counts as a crash (non-zero code or killed by a signal)
+   */
+  static isFailure(exitCode: number, signal?: NodeJS.Signals | number): boolean {
+    return exitCode !== 0 || !!signal;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * TUI Screen Parser
+ * Output parser for the interactive TUI (PTY backend). Feeds the raw bytes
+ * through a headless terminal emulator and reads the state of the session
+ * (ready for input, working, asking for permission) and the final answer off
+ * the rendered screen, so redraws and escape sequences can't fool it
+ */
+
+import { Terminal } from '@xterm/headless';
+import { PTY_COLUMNS, PTY_ROWS } from './ClaudeCodeProcess';
+import { OutputParser, ParsedOutput, TuiScreenState } from './ClaudeCodeCommunicator';
+
+export interface TuiScreenParserOptions {
+  /** Terminal width (must match the PTY) */
+  columns?: number;
+
+  /** Terminal height (must match the PTY) */
+  rows?: number;
+
+  /** Lines kept above the screen, for answers that scrolled off */
+  scrollback?: number;
+}
+
+/** The input box (`│ > `, or a bare `>`/`❯` prompt between rules) */
+const INPUT_PROMPT = /^[│|]?\s*[>❯][ \u00a0]/;
+
+/** The status line under a spinner while a turn runs */
+const WORKING = /esc to interrupt/i;
+
+/** A permission dialog and its numbered choices */
+const PERMISSION_QUESTION = /Do you want to (?:proceed|make this edit|create|allow)/i;
+const PERMISSION_OPTION = /^[│|]?\s*(?:❯\s*)?(\d)\.\s+(.+?)\s*[│|]?$/;
+
+/** The file named in an edit or create question */
+const PERMISSION_FILE = /Do you want to (?:make this edit to|create) (.+?)\?/i;
+
+/** Start of a message block (`⏺ text` or `⏺ Tool(args)`) */
+const MESSAGE_MARKER = '⏺';
+
+/** A tool call line: one name (or `server - tool`) followed by its arguments */
+const TOOL_CALL = /^⏺ [\w.:-]+(?: - [^(]+)?\(/;
+
+/** Frame and separator lines that end a message block */
+const FRAME_LINE = /^[╭╰─━]/;
+
+/**
+ * Parses one session's TUI output; writes to the emulator are asynchronous,
+ * so parse() returns a promise
+ */
+export class TuiScreenParser implements OutputParser {
+  private terminal: Terminal;
+  private state: TuiScreenState = 'starting';
+  private pendingWrites: number = 0;
+
+  constructor(options: TuiScreenParserOptions = {}) {
+    this.terminal = new Terminal({
+      cols: options.columns ?? PTY_COLUMNS,
+      rows: options.rows ?? PTY_ROWS,
+      scrollback: options.scrollback ?? 1000,
+      allowProposedApi: true,
+    });
+  }
+
+  /**
+   * Current state of the session as shown on screen
+   */
+  get screenState(): TuiScreenState {
+    return this.state;
+  }
+
+  parse(output: string): Promise<ParsedOutput[]> {
+    this.pendingWrites++;
+    return new Promise((resolve) => {
+      this.terminal.write(output, () => {
+        // Judge the screen only once the queued bytes are all drawn, not mid-frame
+        resolve(--this.pendingWrites === 0 ? this.update() : []);
+      });
+    });
+  }
+
+  /**
+   * Text of the visible screen, trailing blank lines removed
+   */
+  screen(): string {
+    const lines = this.lines(this.terminal.buffer.active.viewportY);
+    while (lines.length > 0 && !lines[lines.length - 1]) lines.pop();
+    return lines.join('\n');
+  }
+
+  reset(): void {
+    this.terminal.reset();
+    this.state = 'starting';
+  }
+
+  dispose(): void {
+    this.terminal.dispose();
+  }
+
+  // Private methods
+
+  private update(): ParsedOutput[] {
+    const lines = this.lines(this.terminal.buffer.active.viewportY);
+    const previous = this.state;
+    const next = this.detectState(lines);
+    if (!next || next === previous) return [];
+
+    this.state = next;
+    const screen = lines.join('\n').trimEnd();
+    const outputs: ParsedOutput[] = [];
+
+    switch (next) {
+      case 'permission': {
+        const question = lines.findIndex((line) => PERMISSION_QUESTION.test(line));
+        // The dialog starts below the nearest frame line above its question
+        let top = question - 1;
+        while (top >= 0 && !FRAME_LINE.test(lines[top].trimStart())) top--;
+        const dialog = lines.slice(top + 1).map(stripFrame).filter(Boolean);
+        outputs.push({
+          type: 'screen',
+          state: next,
+          content: dialog.join('\n'),
+          screen,
+          options: dialog
+            .map((line) => line.match(PERMISSION_OPTION))
+            .filter((match): match is RegExpMatchArray => !!match)
+            .map((match) => `${match[1]}. ${match[2]}`),
+          permission: permissionRequest(dialog),
+        });
+        break;
+      }
+      case 'working':
+        outputs.push({ type: 'screen', state: next, content: lines.find((line) => WORKING.test(line))?.trim() || '', screen });
+        break;
+      case 'ready':
+        outputs.push({ type: 'screen', state: next, content: '', screen });
+        // Back at the prompt after a turn: what's above it is the answer
+        if (previous === 'working' || previous === 'permission') {
+          outputs.push({ type: 'result', content: this.finalAnswer(), isComplete: true });
+        }
+        break;
+    }
+
+    return outputs;
+  }
+
+  private detectState(lines: string[]): TuiScreenState | undefined {
+    if (lines.some((line) => PERMISSION_QUESTION.test(line))
+      && lines.some((line) => PERMISSION_OPTION.test(line))) {
+      return 'permission';
+    }
+    if (lines.some((line) => WORKING.test(line))) {
+      return 'working';
+    }
+    if (lines.some((line) => INPUT_PROMPT.test(line))) {
+      return 'ready';
+    }
+    return undefined;
+  }
+
+  /**
+   * The last text message between the latest user prompt and the input box
+   */
+  private finalAnswer(): string {
+    const lines = this.lines(0);
+
+    let inputBox = lines.length;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (INPUT_PROMPT.test(lines[i])) {
+        inputBox = i;
+        break;
+      }
+    }
+
+    let start = -1;
+    for (let i = inputBox - 1; i >= 0; i--) {
+      const line = lines[i].trimStart();
+      // Reached the user's own message: this turn produced no text
+      if (INPUT_PROMPT.test(lines[i])) break;
+      if (line.startsWith(MESSAGE_MARKER) && !TOOL_CALL.test(line)) {
+        start = i;
+        break;
+      }
+    }
+    if (start < 0) return '';
+
+    const answer = [lines[start].trimStart().slice(MESSAGE_MARKER.length).trim()];
+    for (let i = start + 1; i < inputBox; i++) {
+      const line = lines[i];
+      if (line.trimStart().startsWith(MESSAGE_MARKER) || FRAME_LINE.test(line.trimStart())
+        || INPUT_PROMPT.test(line) || WORKING.test(line)) {
+        break;
+      }
+      // Message text is indented to line up after the marker
+      answer.push(line.replace(/^ {2}/, ''));
+    }
+
+    return answer.join('\n').trim();
+  }
+
+  private lines(from: number): string[] {
+    const buffer = this.terminal.buffer.active;
+    const end = buffer.viewportY + this.terminal.rows;
+    const lines: string[] = [];
+    for (let i = from; i < end; i++) {
+      lines.push(buffer.getLine(i)?.translateToString(true) ?? '');
+    }
+    return lines;
+  }
+}
+
+/**
+ * Tool and input of a permission dialog, read from its title and body:
+ * `Bash command` over the command, `Edit file`/`Create file` with the file in
+ * the question, or a `Tool(args)` line for anything else. A command over more
+ * than one line may be wrapped rather than multi-line, so it is only partial.
+ */
+function permissionRequest(
+  dialog: string[]
+): { toolName: string; input: Record<string, unknown>; partial?: boolean } | undefined {
+  const [title = ''] = dialog;
+  const questionIndex = dialog.findIndex((line) => PERMISSION_QUESTION.test(line));
+  const question = dialog[questionIndex] || '';
+  const file = question.match(PERMISSION_FILE)?.[1];
+
+  if (/^Bash command/i.test(title)) {
+    const body = dialog.slice(1, questionIndex < 0 ? undefined : questionIndex);
+    const partial = body.length !== 1 || /(?:…|\.\.\.)$/.test(body[0]);
+    return { toolName: 'Bash', input: { command: body.join('\n') }, ...(partial && { partial }) };
+  }
+  if (/^Edit file/i.test(title)) {
+    return { toolName: 'Edit', input: file ? { file_path: file } : {} };
+  }
+  if (/^(?:Create|Write) file/i.test(title)) {
+    return { toolName: 'Write', input: file ? { file_path: file } : {} };
+  }
+
+  const call = dialog.map((line) => line.match(/^([\w.:-]+(?: - [\w.:-]+)?)\((.*)\)/)).find(Boolean);
+  if (call) {
+    return { toolName: call[1], input: { arguments: call[2] } };
+  }
+  return undefined;
+}
+
+function stripFrame(line: string): string {
+  return line.replace(/^\s*[│|]\s?/, '').replace(/\s*[│|]\s*$/, '').trim();
+}
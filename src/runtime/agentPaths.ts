@@ -0,0 +1,14 @@
+/**
+ * Agent data paths
+ * Everything the runtime persists for an agent lives under <agentDir>/claude-code/
+ */
+
+import * as path from 'path';
+import { AgentConfig } from '../types/runtime';
+
+/**
+ * Root directory for runtime state belonging to an agent
+ */
+export function getAgentDataDir(agent: AgentConfig): string {
+  return path.join(agent.agentDir, 'claude-code');
+}
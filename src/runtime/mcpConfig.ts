@@ -0,0 +1,68 @@
+/**
+ * MCP config helpers
+ * Turns the typed mcpServers of an agent into the JSON Claude Code reads with --mcp-config
+ */
+
+import { ClaudeCodeHttpMcpServer, ClaudeCodeMcpServer } from '../types/runtime';
+
+/**
+ * Check MCP server definitions, throwing on the first invalid one
+ */
+export function validateMcpServers(servers: Record<string, ClaudeCodeMcpServer>): void {
+  // Agent configs written before servers had definitions list them by name
+  if (Array.isArray(servers)) {
+    throw new Error(
+      'mcpServers is now a record of server definitions keyed by name, not a list of names: ' +
+      `replace ${JSON.stringify(servers)} with e.g. { "git": { "command": "git-mcp" } } or ` +
+      '{ "api": { "type": "http", "url": "https://..." } }'
+    );
+  }
+
+  for (const [name, server] of Object.entries(servers)) {
+    if (!name.trim()) {
+      throw new Error('MCP server names must not be empty');
+    }
+
+    if (isHttpMcpServer(server)) {
+      if (!server.url) {
+        throw new Error(`MCP server "${name}" (${server.type}) is missing required field: url`);
+      }
+    } else if (server.type === undefined || server.type === 'stdio') {
+      if (!server.command) {
+        throw new Error(`MCP server "${name}" (stdio) is missing required field: command`);
+      }
+    } else {
+      throw new Error(`MCP server "${name}" has unsupported type: ${(server as { type: string }).type}`);
+    }
+  }
+}
+
+/**
+ * The --mcp-config document for a set of servers
+ */
+export function buildMcpConfig(servers: Record<string, ClaudeCodeMcpServer>): { mcpServers: Record<string, object> } {
+  const mcpServers: Record<string, object> = {};
+
+  for (const [name, server] of Object.entries(servers)) {
+    if (isHttpMcpServer(server)) {
+      mcpServers[name] = {
+        type: server.type,
+        url: server.url,
+        ...(server.headers ? { headers: server.headers } : {}),
+      };
+    } else {
+      mcpServers[name] = {
+        type: 'stdio',
+        command: server.command,
+        args: server.args || [],
+        ...(server.env ? { env: server.env } : {}),
+      };
+    }
+  }
+
+  return { mcpServers };
+}
+
+function isHttpMcpServer(server: ClaudeCodeMcpServer): server is ClaudeCodeHttpMcpServer {
+  return server.type === 'http' || server.type === 'sse';
+}
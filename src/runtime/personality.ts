@@ -0,0 +1,73 @@
+/**
+ * Agent personality
+ * Compiles the personality files in an agent's agentDir (IDENTITY.md, SOUL.md, ...)
+ * into text for Claude Code's system prompt
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentConfig } from '../types/runtime';
+
+/** Default files, in the order they are compiled */
+export const DEFAULT_PERSONALITY_FILES = ['IDENTITY.md', 'SOUL.md', 'USER.md', 'TOOLS.md'];
+
+/** Default size cap for the compiled prompt */
+export const DEFAULT_PERSONALITY_MAX_CHARS = 16000;
+
+export interface CompiledPersonality {
+  /** System prompt text (empty when no personality file exists) */
+  prompt: string;
+
+  /** Files that were included */
+  files: string[];
+
+  /** Whether the prompt was cut to fit the size cap */
+  truncated: boolean;
+}
+
+/**
+ * Read the agent's personality files and assemble them in a fixed order.
+ * Missing or empty files are skipped.
+ */
+export function compilePersonality(agent: AgentConfig): CompiledPersonality {
+  const config = agent.claudeCode?.personality || {};
+  const fileNames = config.files || DEFAULT_PERSONALITY_FILES;
+  const maxChars = config.maxChars ?? DEFAULT_PERSONALITY_MAX_CHARS;
+
+  const sections: string[] = [];
+  const files: string[] = [];
+
+  for (const name of fileNames) {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(agent.agentDir, name), 'utf-8').trim();
+    } catch {
+      continue;
+    }
+    if (!content) continue;
+
+    sections.push(content);
+    files.push(name);
+  }
+
+  if (sections.length === 0) {
+    return { prompt: '', files, truncated: false };
+  }
+
+  const name = agent.identity?.name || agent.name;
+  const preamble =
+    `You are ${name}, an OpenClaw agent. The following files (${files.join(', ')}) ` +
+    'define who you are, who you work for and how you work. Stay in character.';
+
+  const prompt = [preamble, ...sections].join('\n\n');
+  if (prompt.length <= maxChars) {
+    return { prompt, files, truncated: false };
+  }
+
+  const marker = `\n\n[Personality truncated to ${maxChars} characters]`;
+  return {
+    prompt: prompt.slice(0, Math.max(0, maxChars - marker.length)) + marker,
+    files,
+    truncated: true,
+  };
+}
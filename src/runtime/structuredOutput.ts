@@ -0,0 +1,165 @@
+/**
+ * Structured output
+ * Asks a session for a JSON answer of a given shape, pulls the JSON out of the
+ * final message and validates it against a JSON Schema
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { ClaudeCodeJsonSchema } from '../types/runtime';
+
+/** Default number of times a session may correct an invalid answer */
+export const DEFAULT_MAX_CORRECTIONS = 2;
+
+/**
+ * A structured answer that never matched its schema
+ */
+export class StructuredOutputError extends Error {
+  /** Schema violations of the last answer ('no JSON found' if it had none) */
+  readonly errors: string[];
+
+  /** Answers received, the first one included */
+  readonly attempts: number;
+
+  /** Text of the last answer */
+  readonly output: string;
+
+  constructor(message: string, errors: string[], attempts: number, output: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+    this.attempts = attempts;
+    this.output = output;
+  }
+}
+
+export type StructuredOutputCheck<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] };
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/**
+ * Compile a schema once for checking any number of answers; throws on an
+ * invalid schema
+ */
+export function compileSchema<T>(schema: ClaudeCodeJsonSchema): (text: string) => StructuredOutputCheck<T> {
+  let validate: ValidateFunction;
+  try {
+    validate = ajv.compile(schema);
+  } catch (error) {
+    throw new Error(`Invalid JSON schema: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return (text: string) => {
+    const extracted = extractJson(text);
+    if (!extracted.found) {
+      return { valid: false, errors: ['no JSON value found in the answer'] };
+    }
+    if (!validate(extracted.value)) {
+      return { valid: false, errors: (validate.errors || []).map(formatError) };
+    }
+    return { valid: true, value: extracted.value as T };
+  };
+}
+
+/**
+ * Task text telling the session what shape its final answer must have
+ */
+export function buildStructuredPrompt(task: string, schema: ClaudeCodeJsonSchema): string {
+  return [
+    task,
+    '',
+    'When you are done, reply with your final answer as a single JSON value in a ```json code block,',
+    'with nothing after it. The JSON must match this JSON Schema:',
+    '',
+    JSON.stringify(schema, null, 2),
+  ].join('\n');
+}
+
+/**
+ * Follow-up asking the session to fix an answer that didn't validate
+ */
+export function buildCorrectionPrompt(errors: string[]): string {
+  return [
+    'Your answer does not match the required JSON Schema:',
+    ...errors.map((error) => `- ${error}`),
+    '',
+    'Reply with only the corrected JSON in a ```json code block.',
+  ].join('\n');
+}
+
+/**
+ * The JSON value an answer ends with: the whole text, else the last ```json
+ * block, else the last complete object or array in the text
+ */
+export function extractJson(text: string): { found: true; value: unknown } | { found: false } {
+  const trimmed = text.trim();
+  const whole = tryParse(trimmed);
+  if (whole.found) return whole;
+
+  const fences = [...trimmed.matchAll(/```(?:json)?[ \t]*\n([\s\S]*?)```/g)].reverse();
+  for (const fence of fences) {
+    const parsed = tryParse(fence[1].trim());
+    if (parsed.found) return parsed;
+  }
+
+  let last: { found: true; value: unknown } | undefined;
+  for (let start = 0; start < trimmed.length; start++) {
+    if (trimmed[start] !== '{' && trimmed[start] !== '[') continue;
+    const end = matchingBracket(trimmed, start);
+    if (end < 0) continue;
+
+    const parsed = tryParse(trimmed.slice(start, end + 1));
+    if (parsed.found) {
+      last = parsed;
+      // Skip what's inside; a nested value isn't the answer
+      start = end;
+    }
+  }
+  return last ?? { found: false };
+}
+
+function tryParse(text: string): { found: true; value: unknown } | { found: false } {
+  if (!text || !/^[[{]/.test(text)) return { found: false };
+  try {
+    return { found: true, value: JSON.parse(text) };
+  } catch {
+    return { found: false };
+  }
+}
+
+/**
+ * Index of the bracket closing the one at `start`, skipping strings; -1 if unclosed
+ */
+function matchingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function formatError(error: ErrorObject): string {
+  const where = error.instancePath || '(root)';
+  const detail = error.keyword === 'additionalProperties'
+    ? ` '${(error.params as { additionalProperty: string }).additionalProperty}'`
+    : error.keyword === 'enum'
+      ? ` (${(error.params as { allowedValues: unknown[] }).allowedValues.map((v) => JSON.stringify(v)).join(', ')})`
+      : '';
+  return `${where} ${error.message}${detail}`;
+}
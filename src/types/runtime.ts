@@ -12,6 +12,7 @@ export type RuntimeType = 'default' | 'claudeCode';
  * Permission modes supported by Claude Code
  */
 export type ClaudeCodePermissionMode =
+  | 'default'
   | 'bypassPermissions'
   | 'acceptEdits'
   | 'delegate'
@@ -29,24 +30,378 @@ export type ClaudeCodeModel =
   | 'anthropic/claude-sonnet-4-5'
   | 'anthropic/claude-haiku-4-5';
 
+/**
+ * Process backend used to drive Claude Code
+ * - 'pty': interactive TUI through node-pty
+ * - 'stream-json': headless `--print` with stream-json input/output over stdio pipes
+ */
+export type ClaudeCodeBackend = 'pty' | 'stream-json';
+
+/**
+ * What to do when a Claude Code process exits without being asked to
+ */
+export interface ClaudeCodeRestartPolicy {
+  /** 'never' (default), 'on-failure' (non-zero exit or signal) or 'always' */
+  mode: 'never' | 'on-failure' | 'always';
+
+  /** Maximum restart attempts per session (default 3) */
+  maxRetries?: number;
+
+  /** Exponential backoff between attempts */
+  backoff?: {
+    /** Delay before the first restart (default 1000) */
+    initialDelayMs?: number;
+
+    /** Upper bound for the delay (default 60000) */
+    maxDelayMs?: number;
+
+    /** Growth factor per attempt (default 2) */
+    multiplier?: number;
+  };
+}
+
+/**
+ * Idle and wall-clock supervision of running sessions
+ */
+export interface ClaudeCodeWatchdogConfig {
+  /** Quiet period after which a running session is marked 'idle' (default 60000) */
+  idleAfterMs?: number;
+
+  /** Act on sessions that have been quiet this long (disabled when unset) */
+  idleTimeoutMs?: number;
+
+  /** Act on sessions running longer than this, per task (disabled when unset) */
+  maxRuntimeMs?: number;
+
+  /** What to do with idle-timed-out or over-limit sessions (default 'stop') */
+  action?: 'stop' | 'interrupt';
+
+  /** How often to check sessions (default 5000) */
+  checkIntervalMs?: number;
+}
+
+/**
+ * MCP server started by Claude Code as a subprocess
+ */
+export interface ClaudeCodeStdioMcpServer {
+  type?: 'stdio';
+
+  /** Executable to run */
+  command: string;
+
+  /** Arguments for the command */
+  args?: string[];
+
+  /** Extra environment variables for the server */
+  env?: Record<string, string>;
+}
+
+/**
+ * Remote MCP server reached over HTTP (streamable HTTP or SSE)
+ */
+export interface ClaudeCodeHttpMcpServer {
+  type: 'http' | 'sse';
+
+  /** Server endpoint */
+  url: string;
+
+  /** Extra request headers (e.g. Authorization) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * MCP server definition
+ */
+export type ClaudeCodeMcpServer = ClaudeCodeStdioMcpServer | ClaudeCodeHttpMcpServer;
+
+/**
+ * Connection status of an MCP server in a session, as reported by Claude
+ * Code ('unknown' where the backend doesn't report it)
+ */
+export interface ClaudeCodeMcpServerStatus {
+  name: string;
+
+  /** e.g. 'connected', 'failed', 'pending', 'needs-auth' or 'unknown' */
+  status: string;
+}
+
+/**
+ * Token usage reported by Claude Code
+ */
+export interface ClaudeCodeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+/**
+ * Usage added up over results: tokens, cost in USD and turns
+ */
+export interface ClaudeCodeUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+
+  /** Agentic turns, as counted by Claude Code */
+  numTurns: number;
+}
+
+/**
+ * An entry of the usage ledger (<agentDir>/claude-code/usage.jsonl): what
+ * one result, or an unfinished turn at a stop or restart, added
+ */
+export interface ClaudeCodeUsageEntry extends ClaudeCodeUsageTotals {
+  timestamp: string;
+  sessionId: string;
+}
+
+/**
+ * Filter for getUsage()
+ */
+export interface ClaudeCodeUsageQuery {
+  sessionId?: string;
+
+  /** Entries at or after this time */
+  from?: Date | string;
+
+  /** Entries before this time */
+  to?: Date | string;
+}
+
+/**
+ * Usage from the ledger, in total, per session and per (UTC) day
+ */
+export interface ClaudeCodeUsageReport {
+  total: ClaudeCodeUsageTotals;
+  bySession: Record<string, ClaudeCodeUsageTotals>;
+
+  /** Keyed by 'YYYY-MM-DD' */
+  byDay: Record<string, ClaudeCodeUsageTotals>;
+}
+
+/**
+ * A spending limit. Tokens are input plus output tokens; cache reads and
+ * writes don't count.
+ */
+export interface ClaudeCodeBudget {
+  /** Cost limit in USD */
+  maxCostUsd?: number;
+
+  /** Token limit */
+  maxTokens?: number;
+
+  /** Fraction of a limit at which a warning is emitted (default 0.8) */
+  warnAt?: number;
+
+  /** What to do with a session over the limit (default 'stop') */
+  action?: 'stop' | 'interrupt';
+}
+
+/**
+ * Spending limits per session and per agent and UTC day (stream-json backend)
+ */
+export interface ClaudeCodeBudgetsConfig {
+  session?: ClaudeCodeBudget;
+  daily?: ClaudeCodeBudget;
+}
+
+/**
+ * What an installed Claude Code binary supports, as probed from --version and --help
+ */
+export interface ClaudeCodeCapabilities {
+  /** Version number, e.g. '2.1.3' (undefined if it couldn't be parsed) */
+  version?: string;
+
+  /** Command line flags listed by --help */
+  flags: string[];
+
+  /** --input-format stream-json (the 'stream-json' backend) */
+  streamJsonInput: boolean;
+
+  /** --mcp-config */
+  mcpConfig: boolean;
+
+  /** Agent teams (CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS), as shown by --help */
+  agentTeams: boolean;
+}
+
+/**
+ * A declarative permission rule. Every condition given must match; a rule
+ * with only `tool` matches every use of that tool.
+ */
+export interface ClaudeCodePermissionRule {
+  /** 'allow' or 'deny' matching requests */
+  decision: 'allow' | 'deny';
+
+  /** Tool name or glob, e.g. 'Bash', 'Edit', 'mcp__github__*' */
+  tool?: string;
+
+  /** Glob on each command of the Bash command line, e.g. 'git *' or 'npm test*' */
+  command?: string;
+
+  /** Glob on the file the tool touches, e.g. 'src/**' or '/etc/**' (relative to the workdir) */
+  path?: string;
+
+  /** Reason given to Claude Code when the rule denies */
+  reason?: string;
+}
+
+/**
+ * How tool-permission prompts are answered when a session isn't in bypassPermissions
+ */
+export interface ClaudeCodePermissionsConfig {
+  /** Checked before the approval callback; deny rules win over allow rules */
+  rules?: ClaudeCodePermissionRule[];
+
+  /** Decision when no rule matches and there is no approval callback (default 'deny') */
+  defaultDecision?: 'allow' | 'deny';
+
+  /** Time the approval callback gets before the request is denied (default 300000) */
+  approvalTimeoutMs?: number;
+
+  /** Record every decision in <agentDir>/claude-code/permissions.jsonl (default true) */
+  audit?: boolean;
+}
+
+/**
+ * A tool-permission prompt raised by a session
+ */
+export interface ClaudeCodePermissionRequest {
+  sessionId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+
+  /** Workdir the session runs in (for resolving relative paths) */
+  workdir: string;
+
+  /** Stream-json control request ID (undefined for TUI dialogs) */
+  requestId?: string;
+
+  /** The dialog as shown on screen (TUI only) */
+  prompt?: string;
+
+  /** The input could not be read in full off the screen (TUI only); allow rules skip it */
+  partial?: boolean;
+}
+
+/**
+ * How a permission request was answered
+ */
+export interface ClaudeCodePermissionDecision {
+  behavior: 'allow' | 'deny';
+
+  /** Why, passed back to Claude Code on deny */
+  message?: string;
+
+  /** What made the decision */
+  decidedBy: 'rule' | 'approval' | 'default' | 'timeout';
+
+  /** The rule that matched, when decidedBy is 'rule' */
+  rule?: ClaudeCodePermissionRule;
+}
+
+/**
+ * An entry of the permission audit log
+ */
+export interface ClaudeCodePermissionAuditEntry {
+  timestamp: string;
+  sessionId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  decision: ClaudeCodePermissionDecision;
+}
+
+/**
+ * A tool call a session made, with its outcome (see ClaudeCodeConfig.toolAudit)
+ */
+export interface ClaudeCodeToolAuditEntry {
+  /** When the tool was called */
+  timestamp: string;
+  sessionId: string;
+  toolUseId: string;
+  toolName: string;
+
+  /** Tool input, long strings (e.g. a written file's content) cut short */
+  input: Record<string, unknown>;
+
+  /** Absolute path of the file the tool touched */
+  path?: string;
+
+  /** Shell command (Bash) */
+  command?: string;
+
+  /** Server of an MCP tool (mcp__<server>__<tool>) */
+  mcpServer?: string;
+
+  /** 'error' for failed or denied calls, 'unfinished' while running or if the session ended first */
+  outcome: 'ok' | 'error' | 'unfinished';
+
+  /** Start of the tool's output */
+  output?: string;
+
+  durationMs?: number;
+}
+
+/**
+ * Filter for getToolAuditLog()
+ */
+export interface ClaudeCodeToolAuditQuery {
+  sessionId?: string;
+
+  /** Tool name or glob, e.g. 'Bash' or 'mcp__github__*' */
+  tool?: string;
+
+  /** Calls at or after this time */
+  from?: Date | string;
+
+  /** Calls before this time */
+  to?: Date | string;
+}
+
+/**
+ * How the agentDir personality files become part of the system prompt
+ */
+export interface ClaudeCodePersonalityConfig {
+  /** Compile the personality files into each session's system prompt (default true) */
+  enabled?: boolean;
+
+  /** Files to include, in order (default IDENTITY.md, SOUL.md, USER.md, TOOLS.md) */
+  files?: string[];
+
+  /** Size cap for the compiled prompt in characters (default 16000) */
+  maxChars?: number;
+}
+
 /**
  * Claude Code configuration for OpenClaw agents
  */
 export interface ClaudeCodeConfig {
-  /** Path to claude binary (defaults to /opt/homebrew/bin/claude) */
+  /** Path to claude binary (defaults to $CLAUDE_BINARY, then PATH, then well-known install locations) */
   binaryPath?: string;
 
+  /** Oldest Claude Code version the agent accepts, e.g. '2.1.0' */
+  minVersion?: string;
+
   /** Permission mode for autonomous operation */
   permissionMode?: ClaudeCodePermissionMode;
 
+  /** Rules and defaults for answering permission prompts (outside bypassPermissions) */
+  permissions?: ClaudeCodePermissionsConfig;
+
   /** Enable session persistence and resume */
   sessionPersistence?: boolean;
 
   /** Enabled plugins (e.g., 'ralph-wiggum', 'claude-mem', 'github') */
   plugins?: string[];
 
-  /** MCP server names to load */
-  mcpServers?: string[];
+  /** MCP servers to load, keyed by server name (written to a per-session --mcp-config file) */
+  mcpServers?: Record<string, ClaudeCodeMcpServer>;
+
+  /** Load only the servers in mcpServers, ignoring user and project MCP config */
+  strictMcpConfig?: boolean;
 
   /** Enable agent teams (experimental) */
   agentTeams?: boolean;
@@ -54,11 +409,68 @@ export interface ClaudeCodeConfig {
   /** Model to use for this agent */
   model?: ClaudeCodeModel;
 
+  /** Tools Claude may use without asking, e.g. 'Read', 'Bash(git diff:*)' */
+  allowedTools?: string[];
+
+  /** Tools Claude may not use at all */
+  disallowedTools?: string[];
+
+  /** Text appended to Claude Code's system prompt (after the personality) */
+  appendSystemPrompt?: string;
+
+  /** Personality files from agentDir compiled into the system prompt */
+  personality?: ClaudeCodePersonalityConfig;
+
+  /** Maximum agentic turns per session (stream-json backend only) */
+  maxTurns?: number;
+
+  /** Directories outside the workdir Claude may access */
+  additionalDirectories?: string[];
+
   /** Working directory for Claude Code sessions */
   workdir?: string;
 
   /** Environment variables to pass to Claude Code */
   env?: Record<string, string>;
+
+  /** Process backend (defaults to 'pty') */
+  backend?: ClaudeCodeBackend;
+
+  /** How long to wait for the TUI input prompt before failing the session (PTY backend, default 30000) */
+  readyTimeoutMs?: number;
+
+  /** Regex source matching the TUI input prompt in ANSI-stripped output (PTY backend) */
+  readyPattern?: string;
+
+  /** Automatic respawn (with --resume) after unexpected exits */
+  restartPolicy?: ClaudeCodeRestartPolicy;
+
+  /** Run each new session in its own sandbox (default 'none') */
+  isolation?: ClaudeCodeIsolationMode;
+
+  /** Record a full transcript of every session (default true) */
+  transcripts?: boolean;
+
+  /** Record every tool call in <agentDir>/claude-code/tool-audit.jsonl (default true, stream-json backend) */
+  toolAudit?: boolean;
+
+  /** Events kept per session for stream() to replay (default 1000) */
+  streamHistory?: number;
+
+  /** Graceful-stop window before the session's process tree gets SIGTERM (default 3000) */
+  stopGracePeriodMs?: number;
+
+  /** Window after SIGTERM before the process tree gets SIGKILL (default 5000) */
+  killGracePeriodMs?: number;
+
+  /** Idle detection and stuck-session reaping */
+  watchdog?: ClaudeCodeWatchdogConfig;
+
+  /** Cost and token limits, enforced on stream-json sessions */
+  budgets?: ClaudeCodeBudgetsConfig;
+
+  /** Maximum Claude Code processes this agent runs at once; extra sessions are queued (defaults to unlimited) */
+  maxConcurrentSessions?: number;
 }
 
 /**
@@ -100,7 +512,7 @@ export interface ClaudeCodeSpawnOptions {
   /** The task/prompt to execute */
   task: string;
 
-  /** Session ID to resume (optional) */
+  /** Session ID to resume: a wrapper session ID or a Claude Code session UUID (optional) */
   resumeSessionId?: string;
 
   /** Continue last session in workdir (optional) */
@@ -112,14 +524,120 @@ export interface ClaudeCodeSpawnOptions {
   /** Model override */
   model?: ClaudeCodeModel;
 
-  /** Enable agent teams for this task */
+  /** Allowed tools override (replaces the agent's list) */
+  allowedTools?: string[];
+
+  /** Disallowed tools override (replaces the agent's list) */
+  disallowedTools?: string[];
+
+  /** Appended system prompt override */
+  appendSystemPrompt?: string;
+
+  /** Include the agent's personality in the system prompt (default true) */
+  includePersonality?: boolean;
+
+  /** Max turns override */
+  maxTurns?: number;
+
+  /** Additional directories override (replaces the agent's list) */
+  additionalDirectories?: string[];
+
+  /** Enable agent teams for this task (overrides the agent's agentTeams) */
   enableTeams?: boolean;
 
-  /** Number of teammates to spawn (requires enableTeams) */
+  /** Number of teammates the task asks the team lead for (requires teams) */
   teammates?: number;
 
   /** Output format: 'text', 'json', 'stream-json' */
   outputFormat?: 'text' | 'json' | 'stream-json';
+
+  /** Process backend override */
+  backend?: ClaudeCodeBackend;
+
+  /** Working directory override (defaults to the agent workspace) */
+  workdir?: string;
+
+  /** Queue priority when the agent is at its concurrency limit; higher starts first (default 0) */
+  priority?: number;
+
+  /** Wall-clock limit for this task, overriding watchdog.maxRuntimeMs */
+  maxRuntimeMs?: number;
+
+  /** Sandbox override for this task (ignored when resuming or continuing) */
+  isolation?: ClaudeCodeIsolationMode;
+}
+
+/**
+ * A JSON Schema (draft-07, validated with ajv)
+ */
+export type ClaudeCodeJsonSchema = Record<string, unknown>;
+
+/**
+ * Options for stream()
+ */
+export interface ClaudeCodeStreamOptions {
+  /** Start with the events the session produced so far (default true) */
+  replay?: boolean;
+
+  /** Ends the stream when aborted */
+  signal?: AbortSignal;
+
+  /** Unread events at which the session's output is paused until the reader catches up (default 1000) */
+  highWaterMark?: number;
+}
+
+/**
+ * Options for ask()
+ */
+export interface ClaudeCodeAskOptions {
+  /** Time the reply may take once the message is delivered (default 300000) */
+  timeoutMs?: number;
+
+  /** Withdraws a queued message, or interrupts the turn if it was already delivered */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for runTask()
+ */
+export interface ClaudeCodeStructuredTaskOptions {
+  /** Times the session is asked to fix an answer that doesn't validate (default 2) */
+  maxCorrections?: number;
+
+  /** Time each answer may take (default 300000) */
+  timeoutMs?: number;
+
+  /** Abort the task (the session is stopped) */
+  signal?: AbortSignal;
+
+  /** Leave the session running afterwards instead of stopping it (default false) */
+  keepSession?: boolean;
+}
+
+/**
+ * Lifecycle state of a Claude Code session
+ */
+export type ClaudeCodeSessionState =
+  | 'queued'
+  | 'starting'
+  | 'running'
+  | 'idle'
+  | 'restarting'
+  | 'error'
+  | 'stopped';
+
+/**
+ * An unexpected exit of a session's Claude Code process
+ */
+export interface ClaudeCodeCrash {
+  /** When the process exited */
+  at: Date;
+
+  /** Process exit code */
+  exitCode: number;
+
+  /** Signal that killed the process, if any */
+  signal?: NodeJS.Signals | number;
 }
 
 /**
@@ -129,12 +647,18 @@ export interface ClaudeCodeSession {
   /** Unique session identifier */
   sessionId: string;
 
+  /** Claude Code's own session UUID (once known), used for --resume */
+  claudeSessionId?: string;
+
   /** Agent ID that owns this session */
   agentId: string;
 
   /** Process ID of Claude Code instance */
   pid: number;
 
+  /** Process backend driving this session */
+  backend: ClaudeCodeBackend;
+
   /** Working directory */
   workdir: string;
 
@@ -145,7 +669,7 @@ export interface ClaudeCodeSession {
   startedAt: Date;
 
   /** Session state */
-  state: 'starting' | 'running' | 'idle' | 'error' | 'stopped';
+  state: ClaudeCodeSessionState;
 
   /** Last activity timestamp */
   lastActivity: Date;
@@ -155,17 +679,205 @@ export interface ClaudeCodeSession {
 
   /** Output buffer (recent output) */
   outputBuffer: string[];
+
+  /** 1-based position in the agent's queue while state === 'queued' */
+  queuePosition?: number;
+
+  /** Wall-clock limit enforced by the watchdog */
+  maxRuntimeMs?: number;
+
+  /** Automatic restarts performed under the agent's restart policy */
+  restartCount?: number;
+
+  /** Unexpected exits, oldest first */
+  crashes?: ClaudeCodeCrash[];
+
+  /** Sandbox the session runs in, if isolated */
+  sandbox?: ClaudeCodeSandbox;
+
+  /** MCP servers as reported by Claude Code at startup (stream-json backend) */
+  mcpServers?: ClaudeCodeMcpServerStatus[];
+
+  /** Tokens, cost and turns so far (stream-json backend) */
+  usage?: ClaudeCodeUsageTotals;
+
+  /** When the process ended (sessions loaded from the session store) */
+  endedAt?: Date;
+
+  /** Process exit code (sessions loaded from the session store) */
+  exitCode?: number;
+
+  /** Final result text (sessions loaded from the session store) */
+  result?: string;
+}
+
+/**
+ * Where a session's working copy lives: the agent workspace itself, a git
+ * worktree on its own branch, or a plain copy of the workdir
+ */
+export type ClaudeCodeIsolationMode = 'none' | 'worktree' | 'copy';
+
+/**
+ * A per-session sandbox (see ClaudeCodeConfig.isolation)
+ */
+export interface ClaudeCodeSandbox {
+  /** Wrapper session the sandbox belongs to */
+  sessionId: string;
+
+  /** How the sandbox was created */
+  mode: 'worktree' | 'copy';
+
+  /** Workdir the sandbox was created from */
+  sourceDir: string;
+
+  /** Root of the worktree or copy */
+  path: string;
+
+  /** Directory Claude Code runs in (the source workdir's counterpart inside the sandbox) */
+  workdir: string;
+
+  /** Top level of the source repository (worktree mode) */
+  repoRoot?: string;
+
+  /** Branch holding the session's work (worktree mode) */
+  branch?: string;
+
+  /** Commit the branch started from (worktree mode) */
+  baseRef?: string;
+
+  /** ISO timestamp the sandbox was created */
+  createdAt: string;
+}
+
+/**
+ * Changes made in a sandbox relative to its source
+ */
+export interface ClaudeCodeSandboxDiff {
+  /**
+   * Changed files, relative to the sandbox root. In copy mode, conflict marks
+   * a file the source workdir also changed since the copy was made.
+   */
+  files: { path: string; status: 'added' | 'modified' | 'deleted' | 'renamed'; conflict?: boolean }[];
+
+  /** Unified diff */
+  patch: string;
+}
+
+/**
+ * What to do with a finished session's sandbox
+ */
+export type ClaudeCodeSandboxResolution = 'merge' | 'keep' | 'discard';
+
+/**
+ * Persisted session record (see ClaudeCodeConfig.sessionPersistence)
+ */
+export interface ClaudeCodeSessionRecord {
+  /** Wrapper session identifier */
+  sessionId: string;
+
+  /** Claude Code's own session UUID */
+  claudeSessionId?: string;
+
+  /** Agent ID that owns this session */
+  agentId: string;
+
+  /** Process backend that ran this session */
+  backend: ClaudeCodeBackend;
+
+  /** Task the session was started with */
+  task: string;
+
+  /** Working directory */
+  workdir: string;
+
+  /** Last known session state */
+  state: ClaudeCodeSessionState;
+
+  /** ISO timestamp the session started */
+  startedAt: string;
+
+  /** ISO timestamp of the last activity */
+  lastActivity: string;
+
+  /** ISO timestamp the process ended */
+  endedAt?: string;
+
+  /** Process exit code */
+  exitCode?: number;
+
+  /** Final result text */
+  result?: string;
+
+  /** Error message */
+  error?: string;
+
+  /** Tokens, cost and turns (stream-json backend) */
+  usage?: ClaudeCodeUsageTotals;
 }
 
+/**
+ * How input reached a session: raw keystrokes, a user message, or an interrupt
+ */
+export type ClaudeCodeInputKind = 'write' | 'message' | 'interrupt';
+
+/**
+ * One line of a session transcript (<agentDir>/claude-code/transcripts/<sessionId>.jsonl)
+ */
+export type ClaudeCodeTranscriptEntry =
+  | { timestamp: string; type: 'input'; kind: ClaudeCodeInputKind; data: string }
+  | { timestamp: string; type: 'output'; data: string }
+  | { timestamp: string; type: 'event'; event: ClaudeCodeEvent };
+
 /**
  * Event types emitted by Claude Code runtime
  */
 export type ClaudeCodeEvent =
+  | { type: 'queued'; sessionId: string; position: number }
+  | { type: 'cancelled'; sessionId: string }
   | { type: 'started'; sessionId: string; pid: number }
-  | { type: 'output'; sessionId: string; data: string }
+  | { type: 'session-id'; sessionId: string; claudeSessionId: string }
+  | { type: 'input'; sessionId: string; kind: ClaudeCodeInputKind; data: string; replayed?: boolean }
+  | { type: 'output'; sessionId: string; data: string; replayed?: boolean }
   | { type: 'error'; sessionId: string; error: string }
   | { type: 'completed'; sessionId: string; result?: string }
-  | { type: 'stopped'; sessionId: string; exitCode?: number };
+  | { type: 'stopped'; sessionId: string; exitCode?: number }
+  | { type: 'idle'; sessionId: string; idleMs: number }
+  | {
+      type: 'watchdog';
+      sessionId: string;
+      action: 'stop' | 'interrupt';
+      reason: 'idle-timeout' | 'max-runtime';
+      elapsedMs: number;
+    }
+  | { type: 'mcp-status'; sessionId: string; servers: ClaudeCodeMcpServerStatus[] }
+  | { type: 'usage'; sessionId: string; usage: ClaudeCodeUsageTotals }
+  | {
+      type: 'budget';
+      sessionId: string;
+      scope: 'session' | 'daily';
+      level: 'warning' | 'exceeded';
+      action?: 'stop' | 'interrupt';
+      spent: { costUsd: number; tokens: number };
+      budget: ClaudeCodeBudget;
+    }
+  | { type: 'permission-request'; sessionId: string; request: ClaudeCodePermissionRequest }
+  | {
+      type: 'permission-decision';
+      sessionId: string;
+      request: ClaudeCodePermissionRequest;
+      decision: ClaudeCodePermissionDecision;
+    }
+  | { type: 'sandbox-ready'; sessionId: string; sandbox: ClaudeCodeSandbox; diff: ClaudeCodeSandboxDiff }
+  | { type: 'sandbox-resolved'; sessionId: string; action: ClaudeCodeSandboxResolution }
+  | { type: 'restarting'; sessionId: string; attempt: number; delayMs: number; exitCode: number }
+  | { type: 'gave-up'; sessionId: string; attempts: number; exitCode: number };
+
+/**
+ * Human (or programmatic) approval of a permission request
+ */
+export type ClaudeCodePermissionApprover = (
+  request: ClaudeCodePermissionRequest
+) => Promise<boolean | 'allow' | 'deny' | { behavior: 'allow' | 'deny'; message?: string }>;
 
 /**
  * Options for creating a Claude Code runtime instance
@@ -177,6 +889,81 @@ export interface ClaudeCodeRuntimeOptions {
   /** Callback for runtime events */
   onEvent?: (event: ClaudeCodeEvent) => void;
 
+  /**
+   * Asked about permission requests no rule decides (see ClaudeCodeConfig.permissions).
+   * Return true/'allow' to allow, false/'deny' to deny, or a decision with a message.
+   */
+  approvePermission?: ClaudeCodePermissionApprover;
+
+  /** Logger function */
+  logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
+}
+
+/**
+ * Options for a runtime manager over several agents
+ */
+export interface ClaudeCodeRuntimeManagerOptions {
+  /** Agents to manage; those not on the claudeCode runtime are ignored */
+  agents: AgentConfig[];
+
+  /** Callback for every runtime's events */
+  onEvent?: (agentId: string, event: ClaudeCodeEvent) => void;
+
+  /** Approval callback shared by all runtimes (see ClaudeCodeRuntimeOptions.approvePermission) */
+  approvePermission?: ClaudeCodePermissionApprover;
+
   /** Logger function */
   logger?: (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: any) => void;
 }
+
+/**
+ * An OpenClaw sessions_spawn call addressed to a Claude Code agent
+ */
+export interface ClaudeCodeSessionsSpawnRequest {
+  agentId: string;
+  task: string;
+
+  options?: {
+    /** Run the task with an agent team */
+    swarmMode?: boolean;
+
+    /** Number of teammates (implies swarmMode) */
+    teammates?: number;
+
+    permissionMode?: ClaudeCodePermissionMode;
+  };
+
+  /** Called once the session has finished */
+  onComplete?: (result: ClaudeCodeSessionsSpawnResult) => void;
+}
+
+/**
+ * What sessions_spawn answers right away
+ */
+export interface ClaudeCodeSessionsSpawnResponse {
+  success: boolean;
+  sessionId?: string;
+  message: string;
+}
+
+/**
+ * How a spawned session ended, passed to onComplete
+ */
+export interface ClaudeCodeSessionsSpawnResult {
+  status: 'completed' | 'failed';
+
+  /** The session's final answer, or what went wrong */
+  summary: string;
+
+  sessionId: string;
+  agentId: string;
+
+  /** From the sessions_spawn call to the end of the session */
+  durationMs: number;
+
+  /**
+   * Files the session changed: its sandbox diff, else the files its tools
+   * edited together with what git reports changed in its workdir
+   */
+  changedFiles: string[];
+}
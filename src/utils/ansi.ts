@@ -0,0 +1,15 @@
+/**
+ * ANSI escape sequence helpers
+ */
+
+// CSI, OSC, DCS/APC/PM strings, two-byte escapes and stray control characters
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[P_^][^\x1b]*\x1b\\|\x1b[@-Z\\-_]|[\x00-\x08\x0b-\x0c\x0e-\x1f\x7f]/g;
+
+/**
+ * Remove terminal escape sequences and control characters, keeping text,
+ * newlines and tabs
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '').replace(/\r\n?/g, '\n');
+}
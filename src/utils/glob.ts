@@ -0,0 +1,44 @@
+/**
+ * Glob matching helpers
+ * Small enough for permission rules: `*`, `**` and `?`, no braces or classes
+ */
+
+/**
+ * Whether a file path matches a glob; `*` and `?` stay within one path
+ * segment, `**` crosses directories (`src/**` matches `src/a/b.ts`)
+ */
+export function matchPathGlob(pattern: string, filePath: string): boolean {
+  return toRegExp(pattern, '[^/]').test(filePath);
+}
+
+/**
+ * Whether text (a command line, a tool name) matches a glob; `*` matches
+ * anything, `/` included, so `rm -rf *` also catches `rm -rf /tmp/x`
+ */
+export function matchGlob(pattern: string, text: string): boolean {
+  return toRegExp(pattern, '.').test(text);
+}
+
+function toRegExp(pattern: string, segmentChar: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += `${segmentChar}*`;
+    } else if (char === '?') {
+      source += segmentChar;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
@@ -0,0 +1,183 @@
+/**
+ * Process tree helpers
+ * Claude Code starts MCP servers, shell tools, test runners and teammates;
+ * stopping a session means signalling all of them, not just the CLI's pid
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+
+/**
+ * Whether a pid can name a single process. 0 and negative pids make kill()
+ * signal whole process groups, starting with our own.
+ */
+export function isValidPid(pid: number): boolean {
+  return Number.isInteger(pid) && pid > 0;
+}
+
+/**
+ * Whether a process exists (and we may signal it)
+ */
+export function isProcessAlive(pid: number): boolean {
+  if (!isValidPid(pid)) return false;
+  try {
+    process.kill(pid, 0);
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+  return !isZombie(pid);
+}
+
+/**
+ * Command line of a process, or undefined if it can't be read
+ */
+export function readProcessCommand(pid: number): string | undefined {
+  try {
+    return fs.readFileSync(`/proc/${pid}/cmdline`, 'utf-8').split('\0').join(' ').trim() || undefined;
+  } catch {
+    // No procfs (macOS); fall back to ps
+  }
+
+  try {
+    return execFileSync('ps', ['-o', 'command=', '-p', String(pid)], { encoding: 'utf-8', timeout: 2000 }).trim()
+      || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * All descendants of a process, found by walking the ppid links
+ */
+export function listDescendants(pid: number): number[] {
+  if (process.platform === 'win32' || !isValidPid(pid)) return [];
+
+  let table: string;
+  try {
+    table = execFileSync('ps', ['-A', '-o', 'pid=,ppid='], { encoding: 'utf-8', timeout: 2000 });
+  } catch {
+    return [];
+  }
+
+  const children = new Map<number, number[]>();
+  for (const line of table.split('\n')) {
+    const [child, parent] = line.trim().split(/\s+/).map(Number);
+    if (!child || Number.isNaN(parent)) continue;
+    children.set(parent, [...(children.get(parent) || []), child]);
+  }
+
+  const result: number[] = [];
+  const pending = [...(children.get(pid) || [])];
+  while (pending.length > 0) {
+    const next = pending.shift() as number;
+    result.push(next);
+    pending.push(...(children.get(next) || []));
+  }
+  return result;
+}
+
+/**
+ * Members of a process group (the leader may already be gone)
+ */
+export function listProcessGroup(pgid: number): number[] {
+  if (process.platform === 'win32') return [];
+
+  let table: string;
+  try {
+    table = execFileSync('ps', ['-A', '-o', 'pid=,pgid='], { encoding: 'utf-8', timeout: 2000 });
+  } catch {
+    return [];
+  }
+
+  const members: number[] = [];
+  for (const line of table.split('\n')) {
+    const [pid, group] = line.trim().split(/\s+/).map(Number);
+    if (pid && group === pgid) members.push(pid);
+  }
+  return members;
+}
+
+/**
+ * Signal a process group (the session leader's pid is the group id) and any
+ * extra pids that may have left it. Returns the pids that were signalled.
+ */
+export function signalProcessTree(pgid: number, pids: number[], signal: NodeJS.Signals): number[] {
+  const signalled: number[] = [];
+  if (!isValidPid(pgid)) return signalled;
+
+  if (process.platform !== 'win32') {
+    try {
+      process.kill(-pgid, signal);
+      signalled.push(pgid);
+    } catch {
+      // Group already gone
+    }
+  }
+
+  for (const pid of new Set([pgid, ...pids.filter(isValidPid)])) {
+    try {
+      process.kill(pid, signal);
+      if (!signalled.includes(pid)) signalled.push(pid);
+    } catch {
+      // Already gone
+    }
+  }
+
+  return signalled;
+}
+
+/**
+ * Wait until a single process exits, or the timeout passes.
+ * Returns true if it exited.
+ */
+export async function waitForProcessExit(pid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (isProcessAlive(pid)) {
+    if (Date.now() >= deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+/**
+ * Wait until none of the pids (nor the group) is alive, or the timeout passes.
+ * Returns true if everything exited.
+ */
+export async function waitForProcessTreeExit(pgid: number, pids: number[], timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+
+  const anyAlive = () => isProcessGroupAlive(pgid) || pids.some((pid) => isProcessAlive(pid));
+
+  while (anyAlive()) {
+    if (Date.now() >= deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return true;
+}
+
+function isProcessGroupAlive(pgid: number): boolean {
+  if (process.platform === 'win32' || !isValidPid(pgid)) return isProcessAlive(pgid);
+  try {
+    process.kill(-pgid, 0);
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+
+  // Exited members still waiting to be reaped keep the group "alive"
+  const members = listProcessGroup(pgid);
+  return members.length === 0 || members.some((pid) => !isZombie(pid));
+}
+
+/**
+ * Exited but not yet reaped by its parent (often init in containers that never reaps)
+ */
+function isZombie(pid: number): boolean {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2).startsWith('Z');
+  } catch {
+    return false;
+  }
+}
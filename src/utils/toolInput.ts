@@ -0,0 +1,41 @@
+/**
+ * Tool input helpers
+ * What a tool call touches, read off its name and input
+ */
+
+/** Input fields that name the file a tool touches */
+const PATH_FIELDS = ['file_path', 'notebook_path', 'path'];
+
+/**
+ * The file a tool call touches, as given in its input (possibly relative)
+ */
+export function toolInputPath(input: Record<string, unknown>): string | undefined {
+  for (const field of PATH_FIELDS) {
+    const value = input[field];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * MCP server of a tool named mcp__<server>__<tool>
+ */
+export function mcpServerOf(toolName: string): string | undefined {
+  const match = /^mcp__(.+?)__/.exec(toolName);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * The simple commands a shell command line chains together, split on `&&`,
+ * `||`, `;`, `|`, `&`, newlines, subshell parentheses and command
+ * substitution. Quoting is not understood, so an operator inside quotes
+ * splits too; that only ever makes a rule match less.
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|\n`()]|\$\(|(?<![<>&])&(?![>&])/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for ClaudeBinaryResolver
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeBinaryResolver, compareVersions } from '../../src/runtime/ClaudeBinaryResolver';
+
+describe('ClaudeBinaryResolver', () => {
+  let root: string;
+
+  const HELP = [
+    'Usage: claude [options] [command] [prompt]',
+    '  --input-format <format>   "text" or "stream-json"',
+    '  --mcp-config <configs...> Load MCP servers',
+    '  --allowedTools <tools...> Tools to allow',
+    '  --teammate-mode <mode>    How agent team teammates are shown',
+  ].join('\n');
+
+  /** Write a fake claude that prints the given version and help */
+  const fakeClaude = (dir: string, version: string, help: string = HELP): string => {
+    const file = path.join(root, dir, 'claude');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(
+      file,
+      `#!/bin/sh\nif [ "$1" = "--version" ]; then echo '${version} (Claude Code)'; else echo '${help}'; fi\n`,
+      { mode: 0o755 }
+    );
+    return file;
+  };
+
+  const resolver = (options: ConstructorParameters<typeof ClaudeBinaryResolver>[0] = {}) =>
+    new ClaudeBinaryResolver({ env: { PATH: '' }, searchPaths: [], logger: () => undefined, ...options });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-bin-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should prefer CLAUDE_BINARY, then PATH, then well-known locations', () => {
+    const fromEnv = fakeClaude('env', '2.1.0');
+    const onPath = fakeClaude('path', '2.1.0');
+    const wellKnown = fakeClaude('known', '2.1.0');
+
+    expect(resolver({ env: { CLAUDE_BINARY: fromEnv, PATH: path.dirname(onPath) } }).resolve()).toBe(fromEnv);
+    expect(resolver({ env: { PATH: `/nonexistent${path.delimiter}${path.dirname(onPath)}` }, searchPaths: [wellKnown] }).resolve())
+      .toBe(onPath);
+    expect(resolver({ searchPaths: [path.join(root, 'missing'), wellKnown] }).resolve()).toBe(wellKnown);
+  });
+
+  it('should not fall back when the configured binary is missing', () => {
+    fakeClaude('path', '2.1.0');
+
+    expect(() => resolver({ binaryPath: path.join(root, 'nope'), env: { PATH: path.join(root, 'path') } }).resolve())
+      .toThrow('claudeCode.binaryPath');
+    expect(() => resolver({ searchPaths: [path.join(root, 'missing')] }).resolve()).toThrow('Claude Code binary not found');
+  });
+
+  it('should probe the version and flags without a shell', async () => {
+    const binary = fakeClaude('odd dir; echo pwned', '2.1.40');
+
+    const capabilities = await resolver({ binaryPath: binary }).probe();
+
+    expect(capabilities).toEqual({
+      version: '2.1.40',
+      flags: ['--allowedTools', '--input-format', '--mcp-config', '--teammate-mode'],
+      streamJsonInput: true,
+      mcpConfig: true,
+      agentTeams: true,
+    });
+  });
+
+  it('should explain which requirement an old binary does not meet', async () => {
+    const binary = fakeClaude('old', '2.0.5');
+
+    await expect(resolver({ binaryPath: binary, minVersion: '2.1.0' }).ensure())
+      .rejects.toThrow('is 2.0.5, but claudeCode.minVersion requires 2.1.0');
+    await expect(resolver({ binaryPath: binary }).ensure({ flags: { '--add-dir': 'additionalDirectories' } }))
+      .rejects.toThrow('does not support --add-dir (needed for additionalDirectories)');
+
+    const { binaryPath } = await resolver({ binaryPath: binary }).ensure({ flags: { '--mcp-config': 'mcpServers' } });
+    expect(binaryPath).toBe(binary);
+  });
+
+  it('should go without agent teams, with a warning, on a binary that does not show them', async () => {
+    const warnings: string[] = [];
+    const logger = (level: string, message: string) => {
+      if (level === 'warn') warnings.push(message);
+    };
+    const withTeams = fakeClaude('teams', '2.0.5');
+    const withoutTeams = fakeClaude('no-teams', '9.0.0', HELP.split('\n').slice(0, -1).join('\n'));
+
+    expect(await resolver({ binaryPath: withTeams, logger }).ensure({ agentTeams: 'agentTeams' }))
+      .toMatchObject({ agentTeams: true, capabilities: { agentTeams: true } });
+    expect(await resolver({ binaryPath: withoutTeams, logger }).ensure({ agentTeams: 'agentTeams' }))
+      .toMatchObject({ agentTeams: false, capabilities: { agentTeams: false } });
+    expect(await resolver({ binaryPath: withoutTeams, logger }).ensure()).toMatchObject({ agentTeams: false });
+    expect(warnings).toEqual(['Claude Code --help does not mention agent teams; running without them']);
+  });
+
+  it('should compare dotted versions numerically', () => {
+    expect(compareVersions('2.1.10', '2.1.9')).toBeGreaterThan(0);
+    expect(compareVersions('2.1', '2.1.0')).toBe(0);
+    expect(compareVersions('1.9.9', '2.0.0')).toBeLessThan(0);
+  });
+});
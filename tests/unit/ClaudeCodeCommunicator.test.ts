@@ -0,0 +1,294 @@
+/**
+ * Unit tests for ClaudeCodeCommunicator and its output parsers
+ */
+
+import { EventEmitter } from 'events';
+import {
+  ClaudeCodeCommunicator,
+  DefaultOutputParser,
+  JsonOutputParser,
+  ParsedOutput,
+} from '../../src/runtime/ClaudeCodeCommunicator';
+import { ClaudeCodeProcessSpawner } from '../../src/runtime/ClaudeCodeProcessSpawner';
+
+const sessionId = 'cc-test-agent-1';
+
+/** What the CLI prints for one turn with a tool call */
+const TURN = [
+  { type: 'system', subtype: 'init', session_id: 'abc', model: 'sonnet', cwd: '/repo', tools: ['Bash', 'Read'],
+    mcp_servers: [{ name: 'git', status: 'connected' }] },
+  { type: 'assistant', message: { content: [
+    { type: 'text', text: 'Listing files.' },
+    { type: 'tool_use', id: 'tu1', name: 'Bash', input: { command: 'ls' } },
+  ] } },
+  { type: 'user', message: { content: [
+    { type: 'tool_result', tool_use_id: 'tu1', content: [{ type: 'text', text: 'a\nb' }], is_error: false },
+  ] } },
+  { type: 'result', subtype: 'success', is_error: false, result: 'Two files.', total_cost_usd: 0.0123,
+    duration_ms: 1500, num_turns: 2, usage: { input_tokens: 20, output_tokens: 10, cache_read_input_tokens: 5 } },
+].map((message) => JSON.stringify(message) + '\n').join('');
+
+describe('JsonOutputParser', () => {
+  it('should reassemble messages split across chunks into typed outputs', () => {
+    const parser = new JsonOutputParser();
+    const outputs: ParsedOutput[] = [];
+
+    // Cut the stream mid-line, the way pipe reads do
+    for (let i = 0; i < TURN.length; i += 37) {
+      outputs.push(...parser.parse(TURN.slice(i, i + 37)));
+    }
+
+    expect(outputs.map((output) => output.type)).toEqual(['init', 'assistant-text', 'tool-use', 'tool-result', 'result']);
+    expect(outputs[0]).toMatchObject({
+      claudeSessionId: 'abc',
+      model: 'sonnet',
+      tools: ['Bash', 'Read'],
+      mcpServers: [{ name: 'git', status: 'connected' }],
+    });
+    expect(outputs[1]).toMatchObject({ content: 'Listing files.' });
+    expect(outputs[2]).toMatchObject({ toolUseId: 'tu1', name: 'Bash', input: { command: 'ls' } });
+    expect(outputs[3]).toMatchObject({ toolUseId: 'tu1', content: 'a\nb', isError: false });
+    expect(outputs[4]).toMatchObject({
+      content: 'Two files.',
+      isComplete: true,
+      isError: false,
+      costUsd: 0.0123,
+      durationMs: 1500,
+      numTurns: 2,
+      usage: { inputTokens: 20, outputTokens: 10, cacheReadInputTokens: 5 },
+    });
+  });
+
+  it('should report failed results and pass through non-JSON lines', () => {
+    const parser = new JsonOutputParser();
+
+    expect(parser.parse('Warning: something\n{"type":"result","subtype":"error_max_turns","is_error":true}')).toEqual([
+      { type: 'raw', content: 'Warning: something' },
+    ]);
+    expect(parser.flush()).toEqual([
+      expect.objectContaining({ type: 'result', isError: true, error: 'error_max_turns', isComplete: true }),
+    ]);
+  });
+});
+
+describe('ClaudeCodeCommunicator', () => {
+  let spawner: EventEmitter & { getSession: (id: string) => unknown };
+  let communicator: ClaudeCodeCommunicator;
+
+  beforeEach(() => {
+    spawner = Object.assign(new EventEmitter(), { getSession: () => ({ backend: 'stream-json' }) });
+    communicator = new ClaudeCodeCommunicator({
+      spawner: spawner as unknown as ClaudeCodeProcessSpawner,
+      logger: () => undefined,
+    });
+  });
+
+  afterEach(() => {
+    communicator.cleanup();
+  });
+
+  it('should route stream-json output per session and settle waitForCompletion with the result', async () => {
+    const tools: string[] = [];
+    communicator.on('tool-use', ({ output }) => tools.push(output.name));
+
+    const completion = communicator.waitForCompletion(sessionId, 1000);
+    const half = Math.floor(TURN.length / 2);
+    spawner.emit('output', { type: 'output', sessionId, data: TURN.slice(0, half) });
+    spawner.emit('output', { type: 'output', sessionId: 'cc-other', data: '{"type":"result","result":"other"}' });
+    spawner.emit('output', { type: 'output', sessionId, data: TURN.slice(half) });
+
+    await expect(completion).resolves.toMatchObject({ type: 'result', content: 'Two files.', costUsd: 0.0123 });
+    expect(tools).toEqual(['Bash']);
+  });
+
+  it('should deliver to every subscriber until it unsubscribes', () => {
+    const first: string[] = [];
+    const second: string[] = [];
+    const unsubscribe = communicator.onOutput(sessionId, (output) => first.push(output.type));
+    communicator.onOutput(sessionId, (output) => second.push(output.type));
+
+    spawner.emit('output', { type: 'output', sessionId, data: '{"type":"assistant","message":{"content":[{"type":"text","text":"a"}]}}\n' });
+    unsubscribe();
+    spawner.emit('output', { type: 'output', sessionId, data: '{"type":"result","result":"b"}\n' });
+
+    expect(first).toEqual(['assistant-text']);
+    expect(second).toEqual(['assistant-text', 'result']);
+  });
+
+  it('should give each session its own parser from the factory', () => {
+    const created: string[] = [];
+    communicator.cleanup();
+    communicator = new ClaudeCodeCommunicator({
+      spawner: spawner as unknown as ClaudeCodeProcessSpawner,
+      logger: () => undefined,
+      parserFactory: (session) => {
+        created.push(session.sessionId);
+        return new DefaultOutputParser();
+      },
+    });
+    spawner.getSession = (id: string) => ({ sessionId: id, backend: 'pty' });
+
+    const outputs: Record<string, string[]> = { 'cc-a': [], 'cc-b': [] };
+    communicator.on('parsed-output', ({ sessionId: id, output }) => outputs[id].push(output.type));
+
+    // "Do" in one session and "ne" in another must not add up to "Done"
+    spawner.emit('output', { type: 'output', sessionId: 'cc-a', data: 'Do' });
+    spawner.emit('output', { type: 'output', sessionId: 'cc-b', data: 'ne' });
+    spawner.emit('output', { type: 'output', sessionId: 'cc-a', data: 'wn' });
+
+    expect(created).toEqual(['cc-a', 'cc-b']);
+    expect(outputs).toEqual({ 'cc-a': ['raw', 'raw'], 'cc-b': ['raw'] });
+  });
+
+  it('should still take a single parser through the deprecated outputParser option', async () => {
+    const parsed: string[] = [];
+    const flush = jest.fn(() => []);
+    const dispose = jest.fn();
+    communicator.cleanup();
+    communicator = new ClaudeCodeCommunicator({
+      spawner: spawner as unknown as ClaudeCodeProcessSpawner,
+      logger: () => undefined,
+      outputParser: {
+        parse: (output: string): ParsedOutput => {
+          parsed.push(output);
+          return { type: 'raw', content: output };
+        },
+        flush,
+        dispose,
+      },
+    });
+
+    spawner.emit('output', { type: 'output', sessionId: 'cc-a', data: 'one' });
+    spawner.emit('output', { type: 'output', sessionId: 'cc-b', data: 'two' });
+
+    // Sessions ending leave the caller's parser alone
+    spawner.emit('stopped', { type: 'stopped', sessionId: 'cc-a', exitCode: 0 });
+    spawner.emit('restarting', { type: 'restarting', sessionId: 'cc-b', attempt: 1, delayMs: 1000, exitCode: 1 });
+    communicator.cleanup();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    spawner.emit('output', { type: 'output', sessionId: 'cc-a', data: 'three' });
+    expect(parsed).toEqual(['one', 'two', 'three']);
+    expect(flush).not.toHaveBeenCalled();
+    expect(dispose).not.toHaveBeenCalled();
+  });
+
+  it('should accept parsers that return a single output, synchronously or not', async () => {
+    communicator.cleanup();
+    communicator = new ClaudeCodeCommunicator({
+      spawner: spawner as unknown as ClaudeCodeProcessSpawner,
+      logger: () => undefined,
+      parserFactory: () => ({
+        parse: (output: string): ParsedOutput | Promise<ParsedOutput> => output.startsWith('later')
+          ? Promise.resolve({ type: 'result', content: output, isComplete: true })
+          : { type: 'raw', content: output },
+      }),
+    });
+
+    const outputs: string[] = [];
+    communicator.onOutput(sessionId, (output) => outputs.push(`${output.type}:${output.content}`));
+    const completion = communicator.waitForCompletion(sessionId, 1000);
+
+    spawner.emit('output', { type: 'output', sessionId, data: 'now' });
+    spawner.emit('output', { type: 'output', sessionId, data: 'later' });
+
+    await expect(completion).resolves.toMatchObject({ type: 'result', content: 'later' });
+    expect(outputs).toEqual(['raw:now', 'result:later']);
+  });
+
+  it('should stop waiting when aborted or when the session stops', async () => {
+    const controller = new AbortController();
+    const aborted = communicator.waitForCompletion(sessionId, 1000, controller.signal);
+    controller.abort();
+    await expect(aborted).rejects.toThrow();
+
+    const stopped = communicator.waitForCompletion(sessionId, 1000);
+    spawner.emit('output', { type: 'output', sessionId, data: '{"type":"system","subtype":"init"}\n' });
+    spawner.emit('stopped', { type: 'stopped', sessionId });
+    await expect(stopped).rejects.toThrow('stopped before completing');
+  });
+
+  describe('ask', () => {
+    let sent: string[];
+    let interrupts: number;
+    let state: string;
+
+    const result = (text: string) =>
+      spawner.emit('output', { type: 'output', sessionId, data: JSON.stringify({ type: 'result', result: text }) + '\n' });
+
+    beforeEach(() => {
+      sent = [];
+      interrupts = 0;
+      state = 'running';
+      Object.assign(spawner, {
+        getSession: () => ({ sessionId, backend: 'stream-json', state }),
+        sendMessage: (id: string, message: string) => {
+          sent.push(message);
+          spawner.emit('input', { type: 'input', sessionId: id, kind: 'message', data: message });
+        },
+        interrupt: () => interrupts++,
+      });
+      // The session is working on its task
+      spawner.emit('input', { type: 'input', sessionId, kind: 'message', data: 'task' });
+    });
+
+    it('should queue messages while the session is busy and pair each with its reply', async () => {
+      const first = communicator.ask(sessionId, 'first');
+      const second = communicator.ask(sessionId, 'second');
+      expect(sent).toEqual([]);
+      expect(communicator.getQueuedMessages(sessionId)).toEqual(['first', 'second']);
+
+      result('task done');
+      expect(sent).toEqual(['first']);
+
+      result('reply to first');
+      expect(sent).toEqual(['first', 'second']);
+      result('reply to second');
+
+      await expect(first).resolves.toMatchObject({ content: 'reply to first' });
+      await expect(second).resolves.toMatchObject({ content: 'reply to second' });
+    });
+
+    it('should interrupt a turn that times out and hold the next message until it ends', async () => {
+      result('task done');
+      const slow = communicator.ask(sessionId, 'slow', { timeoutMs: 20 });
+      const next = communicator.ask(sessionId, 'next');
+
+      await expect(slow).rejects.toThrow('Timeout waiting for reply');
+      expect(interrupts).toBe(1);
+      expect(sent).toEqual(['slow']);
+
+      // The interrupted turn's late result is nobody's reply
+      result('late reply to slow');
+      expect(sent).toEqual(['slow', 'next']);
+      result('reply to next');
+      await expect(next).resolves.toMatchObject({ content: 'reply to next' });
+    });
+
+    it('should fail the running turn when the session restarts and send the next once it is back', async () => {
+      result('task done');
+      const lost = communicator.ask(sessionId, 'lost', { timeoutMs: 60000 });
+      const next = communicator.ask(sessionId, 'next', { timeoutMs: 60000 });
+      expect(sent).toEqual(['lost']);
+
+      state = 'restarting';
+      spawner.emit('restarting', { type: 'restarting', sessionId, attempt: 1, delayMs: 0, exitCode: 1 });
+      await expect(lost).rejects.toThrow('restarted before replying');
+      expect(sent).toEqual(['lost']);
+
+      state = 'running';
+      spawner.emit('started', { type: 'started', sessionId, pid: 2 });
+      expect(sent).toEqual(['lost', 'next']);
+      result('reply to next');
+      await expect(next).resolves.toMatchObject({ content: 'reply to next' });
+    });
+
+    it('should reject waiting messages when the session stops', async () => {
+      const queued = communicator.ask(sessionId, 'never sent');
+      spawner.emit('stopped', { type: 'stopped', sessionId });
+
+      await expect(queued).rejects.toThrow('stopped before replying');
+      expect(sent).toEqual([]);
+    });
+  });
+});
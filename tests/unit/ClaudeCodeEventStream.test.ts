@@ -0,0 +1,83 @@
+/**
+ * Unit tests for ClaudeCodeEventStream
+ */
+
+import { EventEmitter } from 'events';
+import { ClaudeCodeEventStream, ClaudeCodeStreamEvent } from '../../src/runtime/ClaudeCodeEventStream';
+
+const sessionId = 'cc-test-agent-1';
+
+describe('ClaudeCodeEventStream', () => {
+  let source: EventEmitter;
+  let pauses: string[];
+  let events: ClaudeCodeEventStream;
+
+  const output = (data: string, id: string = sessionId) =>
+    source.emit('output', { type: 'output', sessionId: id, data });
+
+  const collect = async (iterable: AsyncIterable<ClaudeCodeStreamEvent>): Promise<string[]> => {
+    const seen: string[] = [];
+    for await (const event of iterable) {
+      seen.push(event.type === 'output' ? event.data : event.type);
+    }
+    return seen;
+  };
+
+  beforeEach(() => {
+    source = new EventEmitter();
+    pauses = [];
+    events = new ClaudeCodeEventStream({
+      source,
+      pause: (id) => pauses.push(`pause ${id}`),
+      resume: (id) => pauses.push(`resume ${id}`),
+    });
+  });
+
+  it('should replay history, follow live events of one session and end when it stops', async () => {
+    source.emit('started', { type: 'started', sessionId, pid: 1 });
+    output('a');
+
+    const seen = collect(events.stream(sessionId));
+    output('b');
+    output('other', 'cc-test-agent-2');
+    source.emit('stopped', { type: 'stopped', sessionId, exitCode: 0 });
+    output('late');
+
+    expect(await seen).toEqual(['started', 'a', 'b', 'stopped']);
+
+    // A finished session can still be read back
+    expect(await collect(events.stream(sessionId, { replay: false }))).toEqual([]);
+    expect(await collect(events.stream(sessionId))).toEqual(['started', 'a', 'b', 'stopped']);
+  });
+
+  it('should pause the session while a reader falls behind', async () => {
+    source.emit('started', { type: 'started', sessionId, pid: 1 });
+    const reader = events.stream(sessionId, { highWaterMark: 4 });
+
+    for (const data of ['a', 'b', 'c', 'd', 'e']) output(data);
+    expect(pauses).toEqual([`pause ${sessionId}`]);
+
+    // 'started' and five outputs queued: resumed once no more than two are left
+    for (let i = 0; i < 3; i++) await reader.next();
+    expect(pauses).toEqual([`pause ${sessionId}`]);
+    await reader.next();
+    expect(pauses).toEqual([`pause ${sessionId}`, `resume ${sessionId}`]);
+  });
+
+  it('should end on abort and release the session', async () => {
+    source.emit('started', { type: 'started', sessionId, pid: 1 });
+    const controller = new AbortController();
+    const reader = events.stream(sessionId, { signal: controller.signal, replay: false, highWaterMark: 1 });
+
+    const pending = reader.next();
+    controller.abort();
+
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    output('a');
+    expect(pauses).toEqual([]);
+  });
+
+  it('should end at once for a session that is neither live nor recorded', async () => {
+    expect(await collect(events.stream('cc-old', {}, false))).toEqual([]);
+  });
+});
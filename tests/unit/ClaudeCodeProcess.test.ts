@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the stream-json process backend
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeProcessExit, StreamJsonClaudeCodeProcess } from '../../src/runtime/ClaudeCodeProcess';
+
+/**
+ * A fake CLI that reports its arguments in two chunks (with non-JSON noise
+ * and JSON that isn't a message before them) and echoes every stdin line back until its input ends. With
+ * CLOSE_STDIN it closes stdin right away and lingers instead.
+ */
+const FAKE_CLI = `#!${process.execPath}
+const fs = require('fs');
+const args = JSON.stringify({ type: 'args', args: process.argv.slice(2) });
+process.stdout.write('not json\\nnull\\n[1,2]\\n42\\n' + args.slice(0, 10));
+setTimeout(() => process.stdout.write(args.slice(10) + '\\n'), 50);
+
+if (process.env.CLOSE_STDIN) {
+  fs.closeSync(0);
+  setTimeout(() => process.stdout.write(JSON.stringify({ type: 'closed' }) + '\\n'), 60);
+  setTimeout(() => process.exit(0), 500);
+} else {
+  let buffer = '';
+  process.stdin.setEncoding('utf-8');
+  process.stdin.on('data', (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split('\\n');
+    buffer = lines.pop();
+    for (const line of lines) process.stdout.write(JSON.stringify({ type: 'echo', message: JSON.parse(line) }) + '\\n');
+  });
+  process.stdin.on('end', () => process.exit(0));
+}
+`;
+
+describe('StreamJsonClaudeCodeProcess', () => {
+  let root: string;
+  let binaryPath: string;
+
+  const start = (env: NodeJS.ProcessEnv = {}) => {
+    const child = new StreamJsonClaudeCodeProcess({
+      binaryPath,
+      args: ['--model', 'sonnet'],
+      cwd: root,
+      env: { ...process.env, ...env },
+    });
+    const messages: Array<Record<string, unknown>> = [];
+    child.onMessage((message) => messages.push(message));
+    const exited = new Promise<ClaudeCodeProcessExit>((resolve) => child.onExit(resolve));
+    return { child, messages, exited };
+  };
+
+  const waitFor = async (predicate: () => boolean) => {
+    for (let i = 0; i < 100 && !predicate(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-process-'));
+    binaryPath = path.join(root, 'claude');
+    fs.writeFileSync(binaryPath, FAKE_CLI, { mode: 0o755 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should add the stream-json flags and decode NDJSON split across chunks', async () => {
+    const { child, messages, exited } = start();
+    await waitFor(() => messages.length > 0);
+
+    expect(messages).toEqual([{
+      type: 'args',
+      args: ['--print', '--verbose', '--input-format', 'stream-json', '--output-format', 'stream-json', '--model', 'sonnet'],
+    }]);
+
+    child.requestExit();
+    expect(await exited).toEqual(expect.objectContaining({ exitCode: 0 }));
+  });
+
+  it('should refuse a launch that never got a process', () => {
+    expect(() => new StreamJsonClaudeCodeProcess({
+      binaryPath: path.join(root, 'missing'),
+      args: [],
+      cwd: root,
+      env: process.env,
+    })).toThrow(`Failed to start Claude Code: ${path.join(root, 'missing')}`);
+    expect(() => new StreamJsonClaudeCodeProcess({
+      binaryPath,
+      args: [],
+      cwd: path.join(root, 'no-such-dir'),
+      env: process.env,
+    })).toThrow('Failed to start Claude Code');
+  });
+
+  it('should send turns, permission answers and the exit request as control messages', async () => {
+    const { child, messages, exited } = start();
+    const echoed = () => messages.filter((message) => message.type === 'echo').map((message) => message.message);
+    await waitFor(() => messages.length > 0);
+
+    child.sendMessage('Fix the bug');
+    child.answerPermission(
+      { requestId: 'req-1', sessionId: 'cc-test-agent-1', toolName: 'Bash', input: { command: 'ls' }, workdir: root },
+      { behavior: 'allow', decidedBy: 'rule' }
+    );
+    child.answerPermission(
+      { requestId: 'req-2', sessionId: 'cc-test-agent-1', toolName: 'Bash', input: { command: 'rm -rf /' }, workdir: root },
+      { behavior: 'deny', decidedBy: 'default' }
+    );
+    child.requestExit();
+
+    expect(await exited).toEqual(expect.objectContaining({ exitCode: 0 }));
+    await waitFor(() => echoed().length === 4);
+    expect(echoed()).toEqual([
+      { type: 'user', message: { role: 'user', content: [{ type: 'text', text: 'Fix the bug' }] } },
+      { type: 'control_response', response: {
+        subtype: 'success',
+        request_id: 'req-1',
+        response: { behavior: 'allow', updatedInput: { command: 'ls' } },
+      } },
+      { type: 'control_response', response: {
+        subtype: 'success',
+        request_id: 'req-2',
+        response: { behavior: 'deny', message: 'Permission denied' },
+      } },
+      { type: 'control_request', request_id: 'interrupt-1', request: { subtype: 'interrupt' } },
+    ]);
+  });
+
+  it('should report a write to a closed stdin on exit instead of throwing', async () => {
+    const { child, messages, exited } = start({ CLOSE_STDIN: '1' });
+    await waitFor(() => messages.some((message) => message.type === 'closed'));
+
+    child.sendMessage('x'.repeat(100000));
+
+    const exit = await exited;
+    expect(exit.exitCode).toBe(0);
+    expect(exit.stderr).toMatch(/stdin: .*EPIPE/);
+  });
+});
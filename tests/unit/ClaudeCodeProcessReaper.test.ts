@@ -0,0 +1,119 @@
+/**
+ * Unit tests for ClaudeCodeProcessReaper
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeProcessReaper } from '../../src/runtime/ClaudeCodeProcessReaper';
+import { isProcessAlive, listDescendants, signalProcessTree } from '../../src/utils/processTree';
+
+const describeUnix = process.platform === 'win32' ? describe.skip : describe;
+
+describeUnix('ClaudeCodeProcessReaper', () => {
+  let dir: string;
+  let registryPath: string;
+  let children: ChildProcess[];
+
+  // A process group whose leader has a long-running child, like an MCP server
+  const spawnTree = async (script = 'sleep 30 & wait'): Promise<ChildProcess> => {
+    const child = spawn('sh', ['-c', script], { detached: true, stdio: 'ignore' });
+    children.push(child);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    return child;
+  };
+
+  const createReaper = () =>
+    new ClaudeCodeProcessReaper({
+      registryPath,
+      binaryName: 'sh',
+      stopGracePeriodMs: 200,
+      killGracePeriodMs: 500,
+      logger: () => undefined,
+    });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reaper-'));
+    registryPath = path.join(dir, 'pids.json');
+    children = [];
+  });
+
+  afterEach(() => {
+    for (const child of children) {
+      try {
+        process.kill(-(child.pid as number), 'SIGKILL');
+      } catch {
+        // Already gone
+      }
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('terminates the whole process tree', async () => {
+    const child = await spawnTree();
+    const pid = child.pid as number;
+    const [grandchild] = listDescendants(pid);
+    expect(grandchild).toBeDefined();
+
+    await createReaper().terminate(pid);
+
+    expect(isProcessAlive(grandchild)).toBe(false);
+  });
+
+  it('escalates to SIGKILL when SIGTERM is ignored', async () => {
+    const child = await spawnTree("trap '' TERM; sleep 30 & wait");
+    const requestExit = jest.fn();
+
+    await createReaper().terminate(child.pid as number, { requestExit });
+
+    expect(requestExit).toHaveBeenCalled();
+    expect(isProcessAlive(child.pid as number)).toBe(false);
+  });
+
+  it('reaps trees registered by a gateway that is gone', async () => {
+    const child = await spawnTree();
+    const pid = child.pid as number;
+    const [grandchild] = listDescendants(pid);
+
+    // A pid far above any real one stands in for the dead gateway
+    fs.writeFileSync(
+      registryPath,
+      JSON.stringify([{ pid, sessionId: 'cc-test-1', gatewayPid: 2 ** 22 + 1, startedAt: new Date().toISOString() }])
+    );
+
+    const reaped = await createReaper().reapOrphans();
+
+    expect(reaped).toBe(1);
+    expect(isProcessAlive(grandchild)).toBe(false);
+    expect(JSON.parse(fs.readFileSync(registryPath, 'utf-8'))).toEqual([]);
+  });
+
+  it('never signals a pid that is not a positive integer', async () => {
+    const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+    try {
+      const reaper = createReaper();
+      for (const pid of [0, -1, 1.5, NaN]) {
+        await reaper.terminate(pid);
+        await reaper.terminate(pid, { force: true });
+        reaper.register(pid, 'cc-test-1');
+        expect(signalProcessTree(pid, [pid], 'SIGTERM')).toEqual([]);
+        expect(listDescendants(pid)).toEqual([]);
+      }
+
+      expect(kill).not.toHaveBeenCalled();
+      expect(fs.existsSync(registryPath)).toBe(false);
+    } finally {
+      kill.mockRestore();
+    }
+  });
+
+  it('leaves processes of a live gateway alone', async () => {
+    const reaper = createReaper();
+    const child = await spawnTree();
+    reaper.register(child.pid as number, 'cc-test-1');
+
+    expect(await reaper.reapOrphans()).toBe(0);
+    expect(isProcessAlive(child.pid as number)).toBe(true);
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Unit tests for ClaudeCodeProcessSpawner
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeProcessSpawner } from '../../src/runtime/ClaudeCodeProcessSpawner';
+import { ClaudeBinaryRequirements, ClaudeBinaryResolver } from '../../src/runtime/ClaudeBinaryResolver';
+import { AgentConfig, ClaudeCodeConfig, ClaudeCodeEvent, ClaudeCodeSpawnOptions } from '../../src/types/runtime';
+
+const CLAUDE_SESSION_ID = '0b7f3c52-8d1e-4f7a-9c1b-2a3d4e5f6a7b';
+
+/**
+ * A fake claude that appends its arguments and teams switch to launches.jsonl,
+ * shows the TUI's prompt hint (after DELAY_READY ms) and logs stdin to stdin.log,
+ * marked before or after the hint, until it ends (or is killed).
+ * With FAIL_START it exits before showing anything; with CLAUDE_CONFIG_DIR it
+ * writes a new session transcript there. With CRASH it reports CLAUDE_SESSION_ID
+ * and exits with code 2 shortly after: always, or only when not resumed ('first').
+ */
+const FAKE_CLI = `#!${process.execPath}
+const fs = require('fs');
+const path = require('path');
+const launch = { args: process.argv.slice(2), teams: process.env.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS || 'off' };
+fs.appendFileSync('launches.jsonl', JSON.stringify(launch) + '\\n');
+if (process.env.FAIL_START) process.exit(1);
+if (process.env.CRASH === 'always' || (process.env.CRASH === 'first' && !launch.args.includes('--resume'))) {
+  console.log(JSON.stringify({ type: 'system', subtype: 'init', session_id: '${CLAUDE_SESSION_ID}' }));
+  setTimeout(() => process.exit(2), 100);
+}
+if (process.env.CLAUDE_CONFIG_DIR) {
+  const dir = path.join(process.env.CLAUDE_CONFIG_DIR, 'projects', process.cwd().replace(/[^a-zA-Z0-9]/g, '-'));
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, require('crypto').randomUUID() + '.jsonl'), '{}\\n');
+}
+let ready = false;
+process.stdin.on('data', (data) => fs.appendFileSync('stdin.log', (ready ? 'after:' : 'before:') + data));
+process.stdin.on('end', () => process.exit(0));
+setTimeout(() => {
+  ready = true;
+  process.stdout.write('? for shortcuts\\n');
+}, Number(process.env.DELAY_READY || 0));
+`;
+
+interface Launch {
+  args: string[];
+  teams: string;
+}
+
+describe('ClaudeCodeProcessSpawner', () => {
+  let root: string;
+  let binaryPath: string;
+  let spawner: ClaudeCodeProcessSpawner;
+
+  const createSpawner = (claudeCode: ClaudeCodeConfig = {}) => {
+    const agent: AgentConfig = {
+      id: 'test-agent',
+      name: 'Wolverine',
+      runtime: 'claudeCode',
+      workspace: root,
+      agentDir: path.join(root, 'agent'),
+      claudeCode: { backend: 'stream-json', ...claudeCode },
+    };
+    spawner = new ClaudeCodeProcessSpawner({
+      agent,
+      binaryResolver: {
+        ensure: async (requirements: ClaudeBinaryRequirements) => ({ binaryPath, agentTeams: !!requirements.agentTeams }),
+      } as unknown as ClaudeBinaryResolver,
+      logger: () => undefined,
+    });
+    return spawner;
+  };
+
+  const launches = (): Launch[] => fs
+    .readFileSync(path.join(root, 'launches.jsonl'), 'utf-8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+
+  const launched = async (count: number) => {
+    for (let i = 0; i < 250 && !(fs.existsSync(path.join(root, 'launches.jsonl')) && launches().length >= count); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  /** Start a session, stop it again and return what it was launched with */
+  const launch = async (claudeCode: ClaudeCodeConfig, options: Partial<ClaudeCodeSpawnOptions> = {}) => {
+    const created = createSpawner(claudeCode);
+    const inputs: string[] = [];
+    created.on('input', (event: ClaudeCodeEvent) => {
+      if (event.type === 'input') inputs.push(event.data);
+    });
+
+    const session = await created.spawn({ task: 'Build the API', ...options });
+    await created.stop(session.sessionId);
+    return { ...launches().pop() as Launch, inputs };
+  };
+
+  /** Value following a flag, or undefined */
+  const flag = (args: string[], name: string) => (args.includes(name) ? args[args.indexOf(name) + 1] : undefined);
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-spawner-'));
+    fs.mkdirSync(path.join(root, 'agent'));
+    binaryPath = path.join(root, 'claude');
+    fs.writeFileSync(binaryPath, FAKE_CLI, { mode: 0o755 });
+  });
+
+  afterEach(async () => {
+    for (const session of spawner?.getAllSessions() || []) {
+      await spawner.stop(session.sessionId, true);
+    }
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('command arguments', () => {
+    const agentDefaults: ClaudeCodeConfig = {
+      permissionMode: 'default',
+      allowedTools: ['Read', 'Bash(git *)'],
+      disallowedTools: ['WebFetch'],
+      additionalDirectories: ['/shared/docs'],
+      appendSystemPrompt: 'Write tests first.',
+      maxTurns: 20,
+    };
+
+    it('should pass the agent settings as CLI flags', async () => {
+      fs.writeFileSync(path.join(root, 'agent', 'SOUL.md'), '# SOUL\nBe direct.\n');
+
+      const { args } = await launch(agentDefaults);
+
+      expect(args.slice(args.indexOf('--allowedTools'), args.indexOf('--allowedTools') + 3))
+        .toEqual(['--allowedTools', 'Read', 'Bash(git *)']);
+      expect(flag(args, '--disallowedTools')).toBe('WebFetch');
+      expect(flag(args, '--add-dir')).toBe('/shared/docs');
+      expect(flag(args, '--max-turns')).toBe('20');
+      expect(flag(args, '--permission-mode')).toBe('default');
+      expect(flag(args, '--permission-prompt-tool')).toBe('stdio');
+
+      // Personality and extra instructions share the single --append-system-prompt
+      expect(args.filter((arg) => arg === '--append-system-prompt')).toHaveLength(1);
+      expect(flag(args, '--append-system-prompt'))
+        .toMatch(/^You are Wolverine, an OpenClaw agent[\s\S]*Be direct\.\n\nWrite tests first\.$/);
+    });
+
+    it('should leave out flags that do not apply', async () => {
+      const { args } = await launch({ ...agentDefaults, permissionMode: 'bypassPermissions' }, { includePersonality: false });
+      expect(args).not.toContain('--permission-prompt-tool');
+      expect(flag(args, '--append-system-prompt')).toBe('Write tests first.');
+
+      // The TUI has no turn limit and answers permission dialogs on screen
+      const tui = await launch({ ...agentDefaults, backend: 'pty' });
+      expect(tui.args).not.toContain('--max-turns');
+      expect(tui.args).not.toContain('--permission-prompt-tool');
+      expect(flag(tui.args, '--add-dir')).toBe('/shared/docs');
+
+      await expect(launch({ maxTurns: 0 })).rejects.toThrow('maxTurns must be a positive integer, got 0');
+    });
+
+    it('should let task options replace the agent defaults and keep them across restarts', async () => {
+      const overrides: Partial<ClaudeCodeSpawnOptions> = {
+        allowedTools: ['Edit'],
+        disallowedTools: [],
+        additionalDirectories: ['/tmp/fixtures'],
+        appendSystemPrompt: 'Only touch src/.',
+        maxTurns: 5,
+        model: 'opus',
+      };
+      const created = createSpawner(agentDefaults);
+      const session = await created.spawn({ task: 'Build the API', ...overrides });
+      await launched(1);
+      await created.restart(session.sessionId);
+      await launched(2);
+
+      const [first, restarted] = launches();
+      for (const { args } of [first, restarted]) {
+        expect(flag(args, '--allowedTools')).toBe('Edit');
+        expect(args).not.toContain('--disallowedTools');
+        expect(flag(args, '--add-dir')).toBe('/tmp/fixtures');
+        expect(flag(args, '--append-system-prompt')).toBe('Only touch src/.');
+        expect(flag(args, '--max-turns')).toBe('5');
+        expect(flag(args, '--model')).toBe('opus');
+      }
+    });
+  });
+
+  describe('readiness', () => {
+    const stdin = () => fs.readFileSync(path.join(root, 'stdin.log'), 'utf-8');
+
+    it('should type the task into the TUI only once its prompt shows', async () => {
+      const created = createSpawner({ backend: 'pty', env: { DELAY_READY: '300' } });
+
+      const session = await created.spawn({ task: 'Build the API' });
+
+      expect(session.state).toBe('running');
+      for (let i = 0; i < 50 && !fs.existsSync(path.join(root, 'stdin.log')); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(stdin()).toMatch(/^after:Build the API/);
+    });
+
+    it('should send the task to stream-json right away and count its first message as ready', async () => {
+      const created = createSpawner({ env: { DELAY_READY: '300' } });
+
+      const session = await created.spawn({ task: 'Build the API' });
+
+      expect(session.state).toBe('starting');
+      await new Promise((resolve) => created.once('output', resolve));
+      expect(session.state).toBe('running');
+      expect(stdin()).toMatch(/^before:\{.*Build the API/);
+    });
+
+    it('should fail the session when the prompt never shows', async () => {
+      const created = createSpawner({ backend: 'pty', readyTimeoutMs: 200, env: { DELAY_READY: '5000' } });
+      const errors: ClaudeCodeEvent[] = [];
+      created.on('error', (event: ClaudeCodeEvent) => errors.push(event));
+
+      await expect(created.spawn({ task: 'Build the API' })).rejects.toThrow('did not show its input prompt within 200ms');
+
+      expect(errors).toEqual([expect.objectContaining({ error: 'Claude Code did not show its input prompt within 200ms' })]);
+      expect(created.getAllSessions()).toEqual([]);
+      expect(fs.existsSync(path.join(root, 'stdin.log'))).toBe(false);
+    });
+
+    it('should fail the session when the CLI exits before it is ready', async () => {
+      const created = createSpawner({ backend: 'pty', env: { FAIL_START: '1' } });
+      const errors: ClaudeCodeEvent[] = [];
+      created.on('error', (event: ClaudeCodeEvent) => errors.push(event));
+
+      await expect(created.spawn({ task: 'Build the API' })).rejects.toThrow('exited with code 1 before it was ready for input');
+
+      expect(errors).toEqual([expect.objectContaining({ type: 'error' })]);
+      expect(created.getAllSessions()).toEqual([]);
+    });
+  });
+
+  describe('failed launches', () => {
+    it('should remove the sandbox and MCP config of a session that never got ready', async () => {
+      const created = createSpawner({
+        backend: 'pty',
+        isolation: 'copy',
+        mcpServers: { git: { command: 'git-mcp' } },
+        env: { FAIL_START: '1' },
+      });
+      created.on('error', () => undefined);
+
+      await expect(created.spawn({ task: 'Build the API' })).rejects.toThrow('before it was ready for input');
+
+      const dataDir = path.join(root, 'agent', 'claude-code');
+      expect(fs.readdirSync(path.join(dataDir, 'sandboxes'))).toEqual([]);
+      expect(fs.readdirSync(path.join(dataDir, 'mcp'))).toEqual([]);
+    });
+
+    it('should remove them when the process cannot be started at all', async () => {
+      binaryPath = path.join(root, 'missing');
+      const created = createSpawner({ isolation: 'copy', mcpServers: { git: { command: 'git-mcp' } } });
+
+      await expect(created.spawn({ task: 'Build the API' })).rejects.toThrow('Failed to start Claude Code');
+
+      const dataDir = path.join(root, 'agent', 'claude-code');
+      expect(fs.readdirSync(path.join(dataDir, 'sandboxes'))).toEqual([]);
+      expect(fs.readdirSync(path.join(dataDir, 'mcp'))).toEqual([]);
+    });
+  });
+
+  describe('session ID discovery', () => {
+    it('should give sessions started together in one workdir their own transcripts', async () => {
+      const configDir = path.join(root, 'config');
+      const created = createSpawner({ backend: 'pty', env: { CLAUDE_CONFIG_DIR: configDir } });
+      const claimed = new Map<string, string>();
+      const discovered = new Promise<void>((resolve) => {
+        created.on('session-id', (event: ClaudeCodeEvent) => {
+          if (event.type === 'session-id') claimed.set(event.sessionId, event.claudeSessionId);
+          if (claimed.size === 2) resolve();
+        });
+      });
+
+      await Promise.all([created.spawn({ task: 'Build the API' }), created.spawn({ task: 'Write the docs' })]);
+      await discovered;
+
+      const transcripts = fs.readdirSync(path.join(configDir, 'projects', root.replace(/[^a-zA-Z0-9]/g, '-')));
+      expect([...claimed.values()].map((id) => `${id}.jsonl`).sort()).toEqual(transcripts.sort());
+    });
+  });
+
+  describe('crash recovery', () => {
+    const events = (created: ClaudeCodeProcessSpawner) => {
+      const seen: ClaudeCodeEvent[] = [];
+      for (const type of ['restarting', 'gave-up', 'stopped']) {
+        created.on(type, (event: ClaudeCodeEvent) => seen.push(event));
+      }
+      return seen;
+    };
+
+    it('should respawn a crashed session with --resume on its conversation', async () => {
+      const created = createSpawner({
+        env: { CRASH: 'first' },
+        restartPolicy: { mode: 'on-failure', backoff: { initialDelayMs: 50 } },
+      });
+      const seen = events(created);
+
+      const session = await created.spawn({ task: 'Build the API' });
+      await launched(2);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(flag(launches()[1].args, '--resume')).toBe(CLAUDE_SESSION_ID);
+      expect(seen).toEqual([{ type: 'restarting', sessionId: session.sessionId, attempt: 1, delayMs: 50, exitCode: 2 }]);
+      expect(created.getSession(session.sessionId)).toBe(session);
+      expect(session).toMatchObject({ state: 'running', restartCount: 1, crashes: [expect.objectContaining({ exitCode: 2 })] });
+    });
+
+    it('should back off between attempts and give up after maxRetries', async () => {
+      const created = createSpawner({
+        env: { CRASH: 'always' },
+        restartPolicy: { mode: 'on-failure', maxRetries: 2, backoff: { initialDelayMs: 50, multiplier: 3 } },
+      });
+      const seen = events(created);
+      const stopped = new Promise((resolve) => created.once('stopped', resolve));
+
+      const session = await created.spawn({ task: 'Build the API' });
+      await stopped;
+
+      expect(launches()).toHaveLength(3);
+      expect(seen.map((event) => event.type)).toEqual(['restarting', 'restarting', 'gave-up', 'stopped']);
+      expect(seen.map((event) => (event.type === 'restarting' ? event.delayMs : undefined)))
+        .toEqual([50, 150, undefined, undefined]);
+      expect(seen[2]).toEqual({ type: 'gave-up', sessionId: session.sessionId, attempts: 2, exitCode: 2 });
+      expect(session.state).toBe('error');
+      expect(session.crashes).toHaveLength(3);
+      expect(created.getAllSessions()).toEqual([]);
+    });
+
+    it('should not respawn a session that was asked to stop', async () => {
+      const created = createSpawner({ restartPolicy: { mode: 'always', backoff: { initialDelayMs: 50 } } });
+      const seen = events(created);
+
+      const session = await created.spawn({ task: 'Build the API' });
+      await created.stop(session.sessionId);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(launches()).toHaveLength(1);
+      expect(seen.map((event) => event.type)).toEqual(['stopped']);
+      expect(session.crashes).toBeUndefined();
+    });
+  });
+
+  describe('agent teams', () => {
+    it('should let the task turn teams off for an agent that has them on', async () => {
+      expect(await launch({ agentTeams: true })).toEqual(expect.objectContaining({ teams: '1', inputs: ['Build the API'] }));
+      expect(await launch({ agentTeams: true }, { enableTeams: false, teammates: 3 }))
+        .toEqual(expect.objectContaining({ teams: 'off', inputs: ['Build the API'] }));
+    });
+
+    it('should ask for the number of teammates in the task', async () => {
+      expect(await launch({}, { enableTeams: true, teammates: 3 })).toEqual(expect.objectContaining({
+        teams: '1',
+        inputs: ['Build the API\n\nCreate an agent team with 3 teammates to work on this.'],
+      }));
+    });
+  });
+});
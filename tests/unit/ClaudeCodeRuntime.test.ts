@@ -3,7 +3,8 @@
  */
 
 import { ClaudeCodeRuntime } from '../../src/runtime/ClaudeCodeRuntime';
-import { AgentConfig } from '../../src/types/runtime';
+import { ClaudeCodeProcessSpawner } from '../../src/runtime/ClaudeCodeProcessSpawner';
+import { AgentConfig, ClaudeCodeEvent, ClaudeCodeSession } from '../../src/types/runtime';
 
 describe('ClaudeCodeRuntime', () => {
   let testConfig: AgentConfig;
@@ -109,4 +110,56 @@ describe('ClaudeCodeRuntime', () => {
       expect(sessions).toEqual([]);
     });
   });
+
+  describe('getSession', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should always hand out a snapshot, never the live session', () => {
+      const live = { sessionId: 'cc-test-agent-1', state: 'running', task: 'test' } as ClaudeCodeSession;
+      jest.spyOn(ClaudeCodeProcessSpawner.prototype, 'getSession').mockReturnValue(live);
+      jest.spyOn(ClaudeCodeProcessSpawner.prototype, 'getAllSessions').mockReturnValue([live]);
+      const runtime = new ClaudeCodeRuntime({ agent: testConfig, logger: () => undefined });
+
+      const [listed] = runtime.getAllSessions();
+      const session = runtime.getSession('cc-test-agent-1') as ClaudeCodeSession;
+      expect(session).toEqual(live);
+      expect(listed).toEqual(live);
+
+      session.state = 'stopped';
+      listed.state = 'stopped';
+      expect(live.state).toBe('running');
+    });
+  });
+
+  describe('watchdog', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should enforce a task\'s own wall-clock limit without a watchdog config', async () => {
+      jest.useFakeTimers();
+      const session = {
+        sessionId: 'cc-test-agent-1',
+        state: 'running',
+        startedAt: new Date(Date.now() - 120000),
+        lastActivity: new Date(Date.now() - 120000),
+        maxRuntimeMs: 60000,
+      } as ClaudeCodeSession;
+      jest.spyOn(ClaudeCodeProcessSpawner.prototype, 'getAllSessions').mockReturnValue([session]);
+      const stop = jest.spyOn(ClaudeCodeProcessSpawner.prototype, 'stop').mockResolvedValue(undefined);
+
+      const events: ClaudeCodeEvent[] = [];
+      const runtime = new ClaudeCodeRuntime({ agent: testConfig, logger: () => undefined, onEvent: (event) => events.push(event) });
+      jest.advanceTimersByTime(5000);
+
+      expect(stop).toHaveBeenCalledWith('cc-test-agent-1');
+      expect(events).toEqual([expect.objectContaining({ type: 'watchdog', reason: 'max-runtime' })]);
+      expect(session.state).toBe('running');
+
+      await runtime.shutdown();
+    });
+  });
 });
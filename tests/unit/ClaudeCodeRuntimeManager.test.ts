@@ -0,0 +1,64 @@
+/**
+ * Unit tests for ClaudeCodeRuntimeManager
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeRuntimeManager } from '../../src/runtime/ClaudeCodeRuntimeManager';
+import { AgentConfig } from '../../src/types/runtime';
+
+describe('ClaudeCodeRuntimeManager', () => {
+  let root: string;
+  let manager: ClaudeCodeRuntimeManager;
+
+  const agent = (id: string, overrides: Partial<AgentConfig> = {}): AgentConfig => ({
+    id,
+    name: id,
+    runtime: 'claudeCode',
+    workspace: root,
+    agentDir: path.join(root, id),
+    claudeCode: { binaryPath: '/nonexistent/claude', transcripts: false },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-manager-'));
+    manager = new ClaudeCodeRuntimeManager({
+      agents: [agent('wolverine'), agent('wolverine-dev'), agent('assistant', { runtime: 'default' })],
+      logger: () => undefined,
+    });
+  });
+
+  afterEach(async () => {
+    await manager.shutdownAll();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should manage claudeCode agents only and create their runtimes on first use', () => {
+    expect(manager.getAgentIds()).toEqual(['wolverine', 'wolverine-dev']);
+    expect(manager.getAllSessions()).toEqual([]);
+
+    const runtime = manager.getRuntime('wolverine-dev');
+    expect(manager.getRuntime('wolverine-dev')).toBe(runtime);
+    expect(manager.getRuntime('wolverine')).not.toBe(runtime);
+
+    expect(() => manager.getRuntime('assistant')).toThrow('Agent assistant not found');
+    expect(() => manager.addAgent(agent('wolverine'))).toThrow('Agent wolverine is already managed');
+    expect(manager.getSession('unknown', 'cc-unknown-1')).toBeUndefined();
+  });
+
+  it('should route sessions to the agent they belong to', async () => {
+    await expect(manager.startSession('nobody', { task: 'x' })).rejects.toThrow('Agent nobody not found');
+    await expect(manager.startSession('wolverine', { task: 'x' })).rejects.toThrow(/claude/i);
+    expect(manager.getSession('wolverine', 'cc-wolverine-1')).toBeUndefined();
+  });
+
+  it('should shut every runtime down and create new ones afterwards', async () => {
+    const runtime = manager.getRuntime('wolverine');
+    await manager.shutdownAll();
+
+    expect(() => runtime.getAllSessions()).toThrow('Claude Code Runtime is not initialized');
+    expect(manager.getRuntime('wolverine')).not.toBe(runtime);
+  });
+});
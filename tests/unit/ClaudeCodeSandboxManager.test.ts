@@ -0,0 +1,172 @@
+/**
+ * Unit tests for ClaudeCodeSandboxManager
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeSandboxManager } from '../../src/runtime/ClaudeCodeSandboxManager';
+
+describe('ClaudeCodeSandboxManager', () => {
+  let root: string;
+  let repo: string;
+  let manager: ClaudeCodeSandboxManager;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@localhost', ...args], {
+      cwd: repo,
+      encoding: 'utf-8',
+    }).trim();
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-')));
+    repo = path.join(root, 'repo');
+    fs.mkdirSync(repo);
+    fs.writeFileSync(path.join(repo, 'README.md'), 'hello\n');
+    fs.writeFileSync(path.join(repo, 'old.txt'), 'old\n');
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'initial');
+
+    manager = new ClaudeCodeSandboxManager({
+      directory: path.join(root, 'agent', 'claude-code', 'sandboxes'),
+      logger: () => undefined,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should run a session on its own worktree branch and merge it back', async () => {
+    const sandbox = await manager.create('cc-test-1', repo, 'worktree');
+    expect(sandbox.branch).toBe('wolverine/cc-test-1');
+    expect(fs.readFileSync(path.join(sandbox.workdir, 'README.md'), 'utf-8')).toBe('hello\n');
+
+    fs.writeFileSync(path.join(sandbox.workdir, 'README.md'), 'hello world\n');
+    fs.writeFileSync(path.join(sandbox.workdir, 'new.txt'), 'new\n');
+    fs.rmSync(path.join(sandbox.workdir, 'old.txt'));
+
+    // The source checkout is untouched while the session works
+    expect(fs.readFileSync(path.join(repo, 'README.md'), 'utf-8')).toBe('hello\n');
+
+    const diff = await manager.diff(sandbox);
+    expect(diff.files).toEqual([
+      { path: 'README.md', status: 'modified' },
+      { path: 'new.txt', status: 'added' },
+      { path: 'old.txt', status: 'deleted' },
+    ]);
+    expect(diff.patch).toContain('+hello world');
+
+    // Looking at the diff commits nothing
+    expect(git('rev-parse', 'wolverine/cc-test-1')).toBe(sandbox.baseRef);
+
+    await manager.resolve('cc-test-1', 'merge');
+
+    expect(fs.readFileSync(path.join(repo, 'README.md'), 'utf-8')).toBe('hello world\n');
+    expect(fs.existsSync(sandbox.path)).toBe(false);
+    expect(git('branch', '--list', 'wolverine/*')).toBe('');
+    expect(manager.get('cc-test-1')).toBeUndefined();
+  });
+
+  it('should keep the branch but drop the checkout', async () => {
+    const sandbox = await manager.create('cc-test-2', repo, 'worktree');
+    fs.writeFileSync(path.join(sandbox.workdir, 'notes.txt'), 'draft\n');
+
+    await manager.resolve('cc-test-2', 'keep');
+
+    expect(fs.existsSync(sandbox.path)).toBe(false);
+    expect(git('show', 'wolverine/cc-test-2:notes.txt')).toBe('draft');
+  });
+
+  it('should reject worktree isolation outside a git repository', async () => {
+    const plain = path.join(root, 'plain');
+    fs.mkdirSync(plain);
+
+    await expect(manager.create('cc-test-3', plain, 'worktree')).rejects.toThrow('needs a git repository');
+  });
+
+  it('should diff and discard a copy sandbox', async () => {
+    const sandbox = await manager.create('cc-test-4', repo, 'copy');
+    fs.writeFileSync(path.join(sandbox.workdir, 'README.md'), 'changed\n');
+
+    const diff = await manager.diff(sandbox);
+    expect(diff.files).toEqual([{ path: 'README.md', status: 'modified' }]);
+    expect(diff.patch).toContain('+changed');
+    expect(manager.list().map((s) => s.sessionId)).toEqual(['cc-test-4']);
+
+    await manager.resolve('cc-test-4', 'discard');
+
+    expect(fs.existsSync(sandbox.path)).toBe(false);
+    expect(fs.readFileSync(path.join(repo, 'README.md'), 'utf-8')).toBe('hello\n');
+    expect(manager.list()).toEqual([]);
+  });
+
+  it('should leave the agent data out of a copy of the workdir that holds it', async () => {
+    const dataDir = path.join(repo, 'agent', 'claude-code');
+    fs.mkdirSync(path.join(dataDir, 'transcripts'), { recursive: true });
+    fs.writeFileSync(path.join(dataDir, 'pids.json'), '[]');
+    fs.writeFileSync(path.join(repo, 'agent', 'SOUL.md'), 'soul\n');
+    const inside = new ClaudeCodeSandboxManager({
+      directory: path.join(dataDir, 'sandboxes'),
+      excludedDirectories: [dataDir],
+      logger: () => undefined,
+    });
+    await inside.create('cc-test-5', repo, 'copy');
+    const sandbox = await inside.create('cc-test-6', repo, 'copy');
+
+    expect(fs.readdirSync(path.join(sandbox.path, 'agent'))).toEqual(['SOUL.md']);
+    expect((await inside.diff(sandbox)).files).toEqual([]);
+
+    // The gateway writing its own data meanwhile is not a change to merge
+    fs.writeFileSync(path.join(dataDir, 'transcripts', 'cc-test-6.jsonl'), '{}\n');
+    expect((await inside.diff(sandbox)).files).toEqual([]);
+
+    fs.writeFileSync(path.join(sandbox.workdir, 'README.md'), 'changed\n');
+    await inside.resolve('cc-test-6', 'merge');
+
+    expect(fs.readFileSync(path.join(repo, 'README.md'), 'utf-8')).toBe('changed\n');
+    expect(inside.list().map((s) => s.sessionId)).toEqual(['cc-test-5']);
+  });
+
+  it('should merge copies against the workdir as it was copied', async () => {
+    fs.writeFileSync(path.join(repo, 'y.txt'), 'y\n');
+    const a = await manager.create('cc-test-7', repo, 'copy');
+    const b = await manager.create('cc-test-8', repo, 'copy');
+
+    fs.writeFileSync(path.join(a.workdir, 'x.txt'), 'x\n');
+    fs.writeFileSync(path.join(a.workdir, 'y.txt'), 'y from a\n');
+    await manager.resolve('cc-test-7', 'merge');
+
+    fs.writeFileSync(path.join(b.workdir, 'z.txt'), 'z\n');
+    const diff = await manager.diff(b);
+    expect(diff.files).toEqual([{ path: 'z.txt', status: 'added' }]);
+    expect(diff.patch).not.toContain('x.txt');
+    await manager.resolve('cc-test-8', 'merge');
+
+    expect(fs.readFileSync(path.join(repo, 'x.txt'), 'utf-8')).toBe('x\n');
+    expect(fs.readFileSync(path.join(repo, 'y.txt'), 'utf-8')).toBe('y from a\n');
+    expect(fs.readFileSync(path.join(repo, 'z.txt'), 'utf-8')).toBe('z\n');
+  });
+
+  it('should refuse to merge a copy over a file the workdir changed too', async () => {
+    const a = await manager.create('cc-test-9', repo, 'copy');
+    const b = await manager.create('cc-test-10', repo, 'copy');
+
+    fs.writeFileSync(path.join(a.workdir, 'README.md'), 'from a\n');
+    await manager.resolve('cc-test-9', 'merge');
+
+    fs.writeFileSync(path.join(b.workdir, 'README.md'), 'from b\n');
+    fs.writeFileSync(path.join(b.workdir, 'other.txt'), 'b\n');
+    expect((await manager.diff(b)).files).toEqual([
+      { path: 'other.txt', status: 'added' },
+      { path: 'README.md', status: 'modified', conflict: true },
+    ]);
+
+    await expect(manager.resolve('cc-test-10', 'merge')).rejects.toThrow('changed in both since the copy was made: README.md');
+    expect(fs.readFileSync(path.join(repo, 'README.md'), 'utf-8')).toBe('from a\n');
+    expect(fs.existsSync(path.join(repo, 'other.txt'))).toBe(false);
+    expect(manager.get('cc-test-10')).toBeDefined();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for ClaudeCodeSessionScheduler
+ */
+
+import { EventEmitter } from 'events';
+import { ClaudeCodeSessionScheduler } from '../../src/runtime/ClaudeCodeSessionScheduler';
+import { ClaudeCodeProcessSpawner } from '../../src/runtime/ClaudeCodeProcessSpawner';
+import { ClaudeCodeSession, ClaudeCodeSpawnOptions } from '../../src/types/runtime';
+
+/**
+ * Minimal stand-in for the spawner that tracks "running" sessions in memory
+ */
+class FakeSpawner extends EventEmitter {
+  agentId = 'test-agent';
+  workspace = '/tmp/test-workspace';
+  running = new Map<string, ClaudeCodeSession>();
+  started: string[] = [];
+  private counter = 0;
+
+  generateSessionId(): string {
+    return `cc-test-agent-${++this.counter}`;
+  }
+
+  async spawn(options: ClaudeCodeSpawnOptions, reserved?: ClaudeCodeSession): Promise<ClaudeCodeSession> {
+    if (options.task === 'broken') {
+      throw new Error('Claude Code binary not found');
+    }
+    const session = Object.assign(reserved || ({} as ClaudeCodeSession), {
+      sessionId: reserved?.sessionId || this.generateSessionId(),
+      agentId: this.agentId,
+      pid: 1000 + this.counter,
+      backend: 'pty' as const,
+      workdir: this.workspace,
+      task: options.task,
+      startedAt: new Date(),
+      lastActivity: new Date(),
+      state: 'starting' as const,
+      outputBuffer: [],
+      queuePosition: undefined,
+    });
+    this.running.set(session.sessionId, session);
+    this.started.push(options.task);
+    return session;
+  }
+
+  getAllSessions(): ClaudeCodeSession[] {
+    return Array.from(this.running.values());
+  }
+
+  finish(sessionId: string): void {
+    this.running.delete(sessionId);
+    this.emit('stopped', { type: 'stopped', sessionId });
+  }
+}
+
+describe('ClaudeCodeSessionScheduler', () => {
+  let spawner: FakeSpawner;
+  let scheduler: ClaudeCodeSessionScheduler;
+
+  beforeEach(() => {
+    spawner = new FakeSpawner();
+    scheduler = new ClaudeCodeSessionScheduler({
+      spawner: spawner as unknown as ClaudeCodeProcessSpawner,
+      maxConcurrentSessions: 1,
+      logger: () => undefined,
+    });
+  });
+
+  it('should start immediately while under the limit', async () => {
+    const session = await scheduler.submit({ task: 'first' });
+
+    expect(session.state).toBe('starting');
+    expect(spawner.started).toEqual(['first']);
+  });
+
+  it('should queue by priority and start queued sessions in place', async () => {
+    const first = await scheduler.submit({ task: 'first' });
+    const low = await scheduler.submit({ task: 'low' });
+    const high = await scheduler.submit({ task: 'high', priority: 10 });
+
+    expect(low.state).toBe('queued');
+    expect(scheduler.getQueuePosition(high.sessionId)).toBe(1);
+    expect(scheduler.getQueuePosition(low.sessionId)).toBe(2);
+
+    spawner.finish(first.sessionId);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(spawner.started).toEqual(['first', 'high']);
+    expect(high.state).toBe('starting');
+    expect(high.queuePosition).toBeUndefined();
+    expect(scheduler.getQueuePosition(low.sessionId)).toBe(1);
+  });
+
+  it('should cancel queued sessions before they start', async () => {
+    const first = await scheduler.submit({ task: 'first' });
+    const queued = await scheduler.submit({ task: 'queued' });
+    const cancelled = jest.fn();
+    scheduler.on('cancelled', cancelled);
+
+    expect(scheduler.cancel(queued.sessionId)).toBe(true);
+    expect(queued.state).toBe('stopped');
+    expect(cancelled).toHaveBeenCalledWith({ type: 'cancelled', sessionId: queued.sessionId });
+
+    spawner.finish(first.sessionId);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(spawner.started).toEqual(['first']);
+    expect(scheduler.cancel(first.sessionId)).toBe(false);
+  });
+
+  it('should end a queued session whose launch fails and start the next one', async () => {
+    const first = await scheduler.submit({ task: 'first' });
+    const broken = await scheduler.submit({ task: 'broken' });
+    await scheduler.submit({ task: 'next' });
+    const events: unknown[] = [];
+    scheduler.on('error', (event) => events.push(event));
+    scheduler.on('stopped', (event) => events.push(event));
+
+    spawner.finish(first.sessionId);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(broken).toEqual(expect.objectContaining({ state: 'error', error: 'Claude Code binary not found' }));
+    expect(events).toEqual([
+      { type: 'error', sessionId: broken.sessionId, error: 'Claude Code binary not found' },
+      { type: 'stopped', sessionId: broken.sessionId },
+    ]);
+    expect(spawner.started).toEqual(['first', 'next']);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for ClaudeCodeSessionStore and session rehydration
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeSessionStore } from '../../src/runtime/ClaudeCodeSessionStore';
+import { ClaudeCodeRuntime } from '../../src/runtime/ClaudeCodeRuntime';
+import { AgentConfig, ClaudeCodeSessionRecord } from '../../src/types/runtime';
+
+describe('ClaudeCodeSessionStore', () => {
+  let agentDir: string;
+  let store: ClaudeCodeSessionStore;
+
+  const record = (overrides: Partial<ClaudeCodeSessionRecord> = {}): ClaudeCodeSessionRecord => ({
+    sessionId: 'cc-test-agent-1-abc',
+    claudeSessionId: '0b7f3c52-8d1e-4f7a-9c1b-2a3d4e5f6a7b',
+    agentId: 'test-agent',
+    backend: 'pty',
+    task: 'Refactor the parser',
+    workdir: '/tmp/test-workspace',
+    state: 'running',
+    startedAt: '2026-01-01T10:00:00.000Z',
+    lastActivity: '2026-01-01T10:05:00.000Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    agentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-'));
+    store = new ClaudeCodeSessionStore({ directory: path.join(agentDir, 'claude-code', 'sessions') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(agentDir, { recursive: true, force: true });
+  });
+
+  it('should save, update and list records oldest first', () => {
+    store.save(record({ sessionId: 'cc-b', startedAt: '2026-01-02T00:00:00.000Z' }));
+    store.save(record({ sessionId: 'cc-a' }));
+    store.update('cc-a', { state: 'stopped', exitCode: 0, result: 'done' });
+
+    const records = store.list();
+    expect(records.map((r) => r.sessionId)).toEqual(['cc-a', 'cc-b']);
+    expect(records[0]).toMatchObject({ state: 'stopped', exitCode: 0, result: 'done' });
+  });
+
+  it('should bring the outcome back with a reloaded session', () => {
+    const session = ClaudeCodeSessionStore.toSession(record({
+      state: 'stopped',
+      endedAt: '2026-01-01T10:06:00.000Z',
+      exitCode: 0,
+      result: 'Parser refactored',
+    }));
+
+    expect(session).toMatchObject({
+      state: 'stopped',
+      endedAt: new Date('2026-01-01T10:06:00.000Z'),
+      exitCode: 0,
+      result: 'Parser refactored',
+    });
+    expect(ClaudeCodeSessionStore.toSession(record())).not.toHaveProperty('endedAt');
+  });
+
+  it('should reject session IDs that would escape the store directory', () => {
+    expect(() => store.save(record({ sessionId: '../evil' }))).toThrow('Invalid session ID');
+    expect(store.load('../evil')).toBeUndefined();
+  });
+
+  it('should rehydrate history into the runtime on startup', async () => {
+    store.save(record());
+
+    const agent: AgentConfig = {
+      id: 'test-agent',
+      name: 'Test Agent',
+      runtime: 'claudeCode',
+      workspace: '/tmp/test-workspace',
+      agentDir,
+      claudeCode: { sessionPersistence: true },
+    };
+    const runtime = new ClaudeCodeRuntime({ agent, logger: () => undefined });
+
+    expect(runtime.getAllSessions()).toEqual([]);
+
+    const history = runtime.getAllSessions({ includeHistory: true });
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      sessionId: 'cc-test-agent-1-abc',
+      claudeSessionId: '0b7f3c52-8d1e-4f7a-9c1b-2a3d4e5f6a7b',
+      state: 'stopped',
+      error: 'Gateway exited while the session was active',
+    });
+    expect(runtime.getSession('cc-test-agent-1-abc')?.task).toBe('Refactor the parser');
+
+    await runtime.shutdown();
+  });
+
+  it('should keep a session that ended in error marked as failed', async () => {
+    // A claude that starts a session, then crashes
+    const binaryPath = path.join(agentDir, 'claude');
+    fs.writeFileSync(binaryPath, `#!${process.execPath}
+if (process.argv.includes('--version') || process.argv.includes('--help')) process.exit(0);
+console.log(JSON.stringify({ type: 'system', subtype: 'init', session_id: '0b7f3c52-8d1e-4f7a-9c1b-2a3d4e5f6a7b' }));
+setTimeout(() => process.exit(3), 100);
+`, { mode: 0o755 });
+
+    const agent: AgentConfig = {
+      id: 'test-agent',
+      name: 'Test Agent',
+      runtime: 'claudeCode',
+      workspace: agentDir,
+      agentDir,
+      claudeCode: { binaryPath, backend: 'stream-json', sessionPersistence: true, restartPolicy: { mode: 'on-failure', maxRetries: 0 } },
+    };
+    const runtime = new ClaudeCodeRuntime({ agent, logger: () => undefined });
+    const stopped = new Promise((resolve) => runtime.once('stopped', resolve));
+
+    const session = await runtime.startSession({ task: 'Refactor the parser' });
+    await stopped;
+
+    expect(store.load(session.sessionId)).toMatchObject({
+      state: 'error',
+      exitCode: 3,
+      error: 'Claude Code kept exiting; gave up after 0 restart attempt(s)',
+      endedAt: expect.any(String),
+    });
+
+    await runtime.shutdown();
+  });
+
+  it('should answer waitForCompletion at once for a session that already ended', async () => {
+    store.save(record({ sessionId: 'cc-done', state: 'stopped', result: 'Parser refactored' }));
+    store.save(record({ sessionId: 'cc-crashed', state: 'error', error: 'boom' }));
+
+    const agent: AgentConfig = {
+      id: 'test-agent',
+      name: 'Test Agent',
+      runtime: 'claudeCode',
+      workspace: '/tmp/test-workspace',
+      agentDir,
+      claudeCode: { sessionPersistence: true },
+    };
+    const runtime = new ClaudeCodeRuntime({ agent, logger: () => undefined });
+
+    await expect(runtime.waitForCompletion('cc-done', 60000))
+      .resolves.toEqual({ type: 'result', content: 'Parser refactored', isComplete: true });
+    await expect(runtime.waitForCompletion('cc-crashed', 60000)).rejects.toThrow('stopped before completing');
+    await expect(runtime.waitForCompletion('cc-unknown', 60000)).rejects.toThrow('stopped before completing');
+
+    await runtime.shutdown();
+  });
+});
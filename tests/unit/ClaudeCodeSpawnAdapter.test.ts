@@ -0,0 +1,175 @@
+/**
+ * Unit tests for ClaudeCodeSpawnAdapter
+ */
+
+import { execFileSync } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeSpawnAdapter, toSpawnOptions } from '../../src/runtime/ClaudeCodeSpawnAdapter';
+import { ClaudeCodeRuntimeManager } from '../../src/runtime/ClaudeCodeRuntimeManager';
+import { ClaudeCodeSessionsSpawnResult, ClaudeCodeToolAuditEntry } from '../../src/types/runtime';
+
+const sessionId = 'cc-wolverine-1';
+
+describe('ClaudeCodeSpawnAdapter', () => {
+  const audited = (toolName: string, filePath: string, outcome: ClaudeCodeToolAuditEntry['outcome'] = 'ok') => ({
+    timestamp: new Date().toISOString(),
+    sessionId,
+    toolUseId: `tu-${toolName}-${filePath}`,
+    toolName,
+    input: { file_path: filePath },
+    path: filePath,
+    outcome,
+  });
+
+  const spawned = () => new Promise<ClaudeCodeSessionsSpawnResult>((resolve) => {
+    adapter.sessionsSpawn({ agentId: 'wolverine', task: 'Implement user auth', onComplete: resolve });
+  });
+
+  let runtime: {
+    startSession: jest.Mock;
+    waitForCompletion: jest.Mock;
+    stopSession: jest.Mock;
+    getSandbox: jest.Mock;
+    getToolAuditLog: jest.Mock;
+  };
+  let adapter: ClaudeCodeSpawnAdapter;
+
+  beforeEach(() => {
+    runtime = {
+      startSession: jest.fn(async () => ({ sessionId, state: 'running', workdir: '/repo' })),
+      waitForCompletion: jest.fn(async () => ({ type: 'result', content: 'Auth module done.\n', isComplete: true })),
+      stopSession: jest.fn(async () => undefined),
+      getSandbox: jest.fn(() => undefined),
+      getToolAuditLog: jest.fn(() => [
+        audited('Write', '/repo/src/auth.ts'),
+        audited('Edit', '/repo/src/auth.ts'),
+        audited('Edit', '/repo/src/broken.ts', 'error'),
+        audited('Read', '/repo/README.md'),
+        audited('Edit', '/etc/hosts'),
+      ]),
+    };
+    const manager = {
+      hasAgent: (agentId: string) => agentId === 'wolverine',
+      getRuntime: () => runtime,
+    };
+    adapter = new ClaudeCodeSpawnAdapter({
+      manager: manager as unknown as ClaudeCodeRuntimeManager,
+      logger: () => undefined,
+    });
+  });
+
+  it('should map the sessions_spawn options onto spawn options', () => {
+    expect(toSpawnOptions({
+      agentId: 'wolverine',
+      task: 'Implement user auth',
+      options: { swarmMode: true, teammates: 3, permissionMode: 'bypassPermissions' },
+    })).toEqual({ task: 'Implement user auth', enableTeams: true, teammates: 3, permissionMode: 'bypassPermissions' });
+    expect(toSpawnOptions({ agentId: 'wolverine', task: 'x', options: { swarmMode: false } })).toEqual({
+      task: 'x',
+      enableTeams: false,
+    });
+    expect(toSpawnOptions({ agentId: 'wolverine', task: 'x', options: { teammates: 2 } })).toEqual({
+      task: 'x',
+      enableTeams: true,
+      teammates: 2,
+    });
+
+    expect(() => toSpawnOptions({ agentId: 'wolverine', task: 'x', options: { teammates: 0 } })).toThrow('teammates');
+    expect(() => toSpawnOptions({ agentId: 'wolverine', task: 'x', options: { swarmMode: false, teammates: 2 } }))
+      .toThrow('options.teammates needs swarmMode');
+    expect(() => toSpawnOptions({ agentId: 'wolverine', task: 'x', options: { permissionMode: 'yolo' as never } }))
+      .toThrow('options.permissionMode must be one of');
+  });
+
+  it('should run the session to its result, stop it and report the outcome', async () => {
+    const completed = new Promise<ClaudeCodeSessionsSpawnResult>((resolve) => {
+      adapter.sessionsSpawn({ agentId: 'wolverine', task: 'Implement user auth', onComplete: resolve })
+        .then((response) => expect(response).toEqual({
+          success: true,
+          sessionId,
+          message: `wolverine session started: ${sessionId}`,
+        }));
+    });
+
+    const result = await completed;
+    expect(result).toEqual({
+      status: 'completed',
+      summary: 'Auth module done.',
+      sessionId,
+      agentId: 'wolverine',
+      durationMs: expect.any(Number),
+      changedFiles: ['src/auth.ts', '/etc/hosts'],
+    });
+    expect(runtime.stopSession).toHaveBeenCalledWith(sessionId);
+  });
+
+  it('should add what git reports changed in the workdir during the session', async () => {
+    const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-spawn-git-'));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, stdio: 'pipe' });
+    try {
+      git('init', '-q');
+      git('config', 'user.email', 'test@example.com');
+      git('config', 'user.name', 'Test');
+      fs.writeFileSync(path.join(repo, 'README.md'), 'hello\n');
+      fs.writeFileSync(path.join(repo, 'untouched.txt'), 'same\n');
+      git('add', '-A');
+      git('commit', '-qm', 'initial');
+
+      runtime.startSession.mockResolvedValue({ sessionId, state: 'running', workdir: repo });
+      runtime.getToolAuditLog.mockReturnValue([audited('Write', path.join(repo, 'src/auth.ts'))]);
+      runtime.waitForCompletion.mockImplementation(async () => {
+        // Sessions take a while; HEAD is read at the start
+        await new Promise((resolve) => setTimeout(resolve, 500));
+
+        // A pty session: the commit, the edit and the new file come from its shell
+        fs.mkdirSync(path.join(repo, 'src'));
+        fs.writeFileSync(path.join(repo, 'src/auth.ts'), 'auth\n');
+        git('add', '-A');
+        git('commit', '-qm', 'auth');
+        fs.writeFileSync(path.join(repo, 'README.md'), 'hello auth\n');
+        fs.writeFileSync(path.join(repo, 'notes.md'), 'todo\n');
+        return { type: 'result', content: 'Done', isComplete: true };
+      });
+
+      expect((await spawned()).changedFiles.sort()).toEqual(['README.md', 'notes.md', 'src/auth.ts']);
+    } finally {
+      fs.rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  it('should not miss a session that finishes while HEAD is being read', async () => {
+    const workdir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-spawn-fast-'));
+    try {
+      // Like the runtime, only results arriving after subscribing are seen
+      const results = new EventEmitter();
+      runtime.startSession.mockImplementation(async () => {
+        setImmediate(() => results.emit('result', { type: 'result', content: 'Quick.', isComplete: true }));
+        return { sessionId, state: 'running', workdir };
+      });
+      runtime.waitForCompletion.mockImplementation(() => new Promise((resolve) => results.once('result', resolve)));
+
+      expect(await spawned()).toEqual(expect.objectContaining({ status: 'completed', summary: 'Quick.' }));
+    } finally {
+      fs.rmSync(workdir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report failures to start right away and failed sessions through onComplete', async () => {
+    expect(await adapter.sessionsSpawn({ agentId: 'assistant', task: 'x' })).toEqual({
+      success: false,
+      message: 'Agent assistant is not a Claude Code agent',
+    });
+
+    runtime.waitForCompletion.mockRejectedValue(new Error(`Session ${sessionId} stopped before completing`));
+    const result = await new Promise<ClaudeCodeSessionsSpawnResult>((resolve) => {
+      adapter.sessionsSpawn({ agentId: 'wolverine', task: 'x', onComplete: resolve });
+    });
+    expect(result).toEqual(expect.objectContaining({
+      status: 'failed',
+      summary: `Session ${sessionId} stopped before completing`,
+    }));
+  });
+});
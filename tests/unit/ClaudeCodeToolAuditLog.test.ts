@@ -0,0 +1,79 @@
+/**
+ * Unit tests for ClaudeCodeToolAuditLog
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeToolAuditLog } from '../../src/runtime/ClaudeCodeToolAuditLog';
+import { ParsedOutput } from '../../src/runtime/ClaudeCodeCommunicator';
+
+const sessionId = 'cc-test-agent-1';
+
+describe('ClaudeCodeToolAuditLog', () => {
+  let root: string;
+  let log: ClaudeCodeToolAuditLog;
+
+  const toolUse = (toolUseId: string, name: string, input: Record<string, unknown>): ParsedOutput => ({
+    type: 'tool-use',
+    content: JSON.stringify(input),
+    toolUseId,
+    name,
+    input,
+  });
+
+  const toolResult = (toolUseId: string, content: string, isError: boolean = false): ParsedOutput => ({
+    type: 'tool-result',
+    content,
+    toolUseId,
+    isError,
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-tool-audit-'));
+    log = new ClaudeCodeToolAuditLog({ path: path.join(root, 'tool-audit.jsonl'), logger: () => undefined });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should record file edits, shell commands and MCP calls with their outcome', () => {
+    log.observe(sessionId, toolUse('tu-1', 'Write', { file_path: 'src/a.ts', content: 'x'.repeat(5000) }), '/repo');
+    log.observe(sessionId, toolUse('tu-2', 'Bash', { command: 'npm test' }), '/repo');
+    log.observe(sessionId, toolUse('tu-3', 'mcp__github__create_issue', { title: 'Bug' }), '/repo');
+    log.observe(sessionId, toolResult('tu-2', 'FAIL src/a.test.ts', true));
+    log.observe(sessionId, toolResult('tu-1', 'File created'));
+    log.endSession(sessionId);
+
+    const [write, bash, mcp] = ['Write', 'Bash', 'mcp__github__create_issue']
+      .map((toolName) => log.read().find((entry) => entry.toolName === toolName));
+    expect(write).toEqual(expect.objectContaining({ outcome: 'ok', path: '/repo/src/a.ts', output: 'File created' }));
+    expect(write?.input.content).toMatch(/^x{2000}… \(3000 more characters\)$/);
+    expect(bash).toEqual(expect.objectContaining({ outcome: 'error', command: 'npm test', output: 'FAIL src/a.test.ts' }));
+    expect(mcp).toEqual(expect.objectContaining({ outcome: 'unfinished', mcpServer: 'github' }));
+  });
+
+  it('should have a call on disk as soon as it is made', () => {
+    log.observe(sessionId, toolUse('tu-1', 'Bash', { command: 'rm -rf build' }), '/repo');
+
+    // What a gateway that crashed mid-tool leaves behind
+    const reopened = new ClaudeCodeToolAuditLog({ path: path.join(root, 'tool-audit.jsonl'), logger: () => undefined });
+    expect(reopened.read()).toEqual([expect.objectContaining({ toolUseId: 'tu-1', command: 'rm -rf build', outcome: 'unfinished' })]);
+
+    log.observe(sessionId, toolResult('tu-1', ''));
+    expect(reopened.read()).toEqual([expect.objectContaining({ toolUseId: 'tu-1', outcome: 'ok', durationMs: expect.any(Number) })]);
+  });
+
+  it('should filter by session, tool glob and time range', () => {
+    log.observe(sessionId, toolUse('tu-1', 'Bash', { command: 'ls' }));
+    log.observe(sessionId, toolResult('tu-1', 'a'));
+    log.observe('cc-test-agent-2', toolUse('tu-1', 'mcp__github__list_prs', {}));
+    log.observe('cc-test-agent-2', toolResult('tu-1', '[]'));
+
+    expect(log.read({ sessionId: 'cc-test-agent-2' }).map((entry) => entry.toolName)).toEqual(['mcp__github__list_prs']);
+    expect(log.read({ tool: 'mcp__*' })).toHaveLength(1);
+    expect(log.read({ tool: 'Bash', from: new Date(Date.now() - 60000) })).toHaveLength(1);
+    expect(log.read({ to: new Date(Date.now() - 60000) })).toEqual([]);
+  });
+});
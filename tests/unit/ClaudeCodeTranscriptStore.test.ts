@@ -0,0 +1,77 @@
+/**
+ * Unit tests for ClaudeCodeTranscriptStore and transcript replay
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeTranscriptStore } from '../../src/runtime/ClaudeCodeTranscriptStore';
+import { ClaudeCodeRuntime } from '../../src/runtime/ClaudeCodeRuntime';
+import { AgentConfig, ClaudeCodeEvent } from '../../src/types/runtime';
+
+describe('ClaudeCodeTranscriptStore', () => {
+  let agentDir: string;
+  let store: ClaudeCodeTranscriptStore;
+
+  const sessionId = 'cc-test-agent-1-abc';
+  const timestamp = '2026-01-01T10:00:00.000Z';
+
+  beforeEach(() => {
+    agentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-'));
+    store = new ClaudeCodeTranscriptStore({ directory: path.join(agentDir, 'claude-code', 'transcripts') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(agentDir, { recursive: true, force: true });
+  });
+
+  it('should record entries as JSONL and tail the latest ones', () => {
+    store.append(sessionId, { timestamp, type: 'event', event: { type: 'started', sessionId, pid: 42 } });
+    store.append(sessionId, { timestamp, type: 'input', kind: 'message', data: 'Fix the tests' });
+    store.append(sessionId, { timestamp, type: 'output', data: 'Done.' });
+
+    expect(store.read(sessionId).map((entry) => entry.type)).toEqual(['event', 'input', 'output']);
+    expect(store.tail(sessionId, 1)).toEqual([{ timestamp, type: 'output', data: 'Done.' }]);
+    expect(store.read('cc-unknown')).toEqual([]);
+  });
+
+  it('should write an ANSI-stripped text view, even when an escape spans chunks', () => {
+    store.append(sessionId, { timestamp, type: 'input', kind: 'message', data: 'hello' });
+    store.append(sessionId, { timestamp, type: 'output', data: '\x1b[1mBold\x1b[' });
+    store.append(sessionId, { timestamp, type: 'output', data: '0m text\r\n' });
+
+    expect(store.readText(sessionId)).toBe(`\n[${timestamp}] > hello\nBold text\n`);
+  });
+
+  it('should reject session IDs that would escape the transcript directory', () => {
+    expect(() => store.append('../evil', { timestamp, type: 'output', data: 'x' })).toThrow('Invalid session ID');
+  });
+
+  it('should replay a recorded transcript through the runtime', async () => {
+    store.append(sessionId, { timestamp, type: 'input', kind: 'message', data: 'Fix the tests' });
+    store.append(sessionId, { timestamp, type: 'event', event: { type: 'completed', sessionId } });
+    store.append(sessionId, { timestamp, type: 'output', data: 'Done.' });
+
+    const agent: AgentConfig = {
+      id: 'test-agent',
+      name: 'Test Agent',
+      runtime: 'claudeCode',
+      workspace: '/tmp/test-workspace',
+      agentDir,
+    };
+    const runtime = new ClaudeCodeRuntime({ agent, logger: () => undefined });
+
+    const events: ClaudeCodeEvent[] = [];
+    runtime.on('input', (event) => events.push(event));
+    runtime.on('output', (event) => events.push(event));
+
+    expect(await runtime.replayTranscript(sessionId)).toBe(2);
+    expect(events).toEqual([
+      { type: 'input', sessionId, kind: 'message', data: 'Fix the tests', replayed: true },
+      { type: 'output', sessionId, data: 'Done.', replayed: true },
+    ]);
+    expect(runtime.readTranscriptText(sessionId)).toContain('Done.');
+
+    await runtime.shutdown();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for ClaudeCodeUsageTracker
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeUsageTracker } from '../../src/runtime/ClaudeCodeUsageTracker';
+import { ClaudeCodeProcessSpawner } from '../../src/runtime/ClaudeCodeProcessSpawner';
+import { ClaudeCodeCommunicator } from '../../src/runtime/ClaudeCodeCommunicator';
+import { ClaudeCodeBudgetsConfig, ClaudeCodeEvent } from '../../src/types/runtime';
+
+const sessionId = 'cc-test-agent-1';
+
+describe('ClaudeCodeUsageTracker', () => {
+  let root: string;
+  let spawner: EventEmitter & { getSession: jest.Mock; stop: jest.Mock; interrupt: jest.Mock };
+  let communicator: EventEmitter;
+  let events: ClaudeCodeEvent[];
+
+  const createTracker = (budgets?: ClaudeCodeBudgetsConfig) => {
+    const tracker = new ClaudeCodeUsageTracker({
+      spawner: spawner as unknown as ClaudeCodeProcessSpawner,
+      communicator: communicator as unknown as ClaudeCodeCommunicator,
+      budgets,
+      ledgerPath: path.join(root, 'usage.jsonl'),
+      logger: () => undefined,
+    });
+    tracker.on('usage', (event) => events.push(event));
+    tracker.on('budget', (event) => events.push(event));
+    return tracker;
+  };
+
+  const call = (messageId: string, inputTokens: number, outputTokens: number, id: string = sessionId) =>
+    communicator.emit('usage', {
+      sessionId: id,
+      output: { type: 'usage', content: '', messageId, usage: { inputTokens, outputTokens } },
+    });
+
+  const result = (costUsd: number, numTurns: number, id: string = sessionId) =>
+    communicator.emit('result', {
+      sessionId: id,
+      output: { type: 'result', content: 'done', isComplete: true, costUsd, numTurns },
+    });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-usage-'));
+    spawner = Object.assign(new EventEmitter(), {
+      getSession: jest.fn(() => undefined),
+      stop: jest.fn(() => Promise.resolve()),
+      interrupt: jest.fn(),
+    });
+    communicator = new EventEmitter();
+    events = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should add up model calls and cumulative result cost per session and in the ledger', () => {
+    const tracker = createTracker();
+
+    // A message streamed in parts repeats its ID and counts once
+    call('msg-1', 100, 10);
+    call('msg-1', 100, 20);
+    call('msg-2', 50, 5);
+    expect(tracker.getSessionUsage(sessionId)).toEqual(expect.objectContaining({ inputTokens: 150, outputTokens: 25, costUsd: 0 }));
+
+    result(0.02, 2);
+    call('msg-3', 10, 1);
+    result(0.05, 3);
+    call('msg-4', 7, 7, 'cc-test-agent-2');
+    result(0.01, 1, 'cc-test-agent-2');
+
+    expect(tracker.getSessionUsage(sessionId)).toEqual({
+      inputTokens: 160,
+      outputTokens: 26,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd: 0.05,
+      numTurns: 3,
+    });
+    expect(events.filter((event) => event.type === 'usage')).toHaveLength(3);
+
+    const report = tracker.query();
+    expect(report.total).toEqual(expect.objectContaining({ inputTokens: 167, outputTokens: 33, numTurns: 4 }));
+    expect(report.total.costUsd).toBeCloseTo(0.06);
+    expect(Object.keys(report.bySession)).toEqual([sessionId, 'cc-test-agent-2']);
+    expect(Object.values(report.byDay)).toEqual([report.total]);
+    expect(tracker.query({ sessionId: 'cc-test-agent-2' }).total.costUsd).toBe(0.01);
+    expect(tracker.query({ from: new Date(Date.now() + 60000) }).total.costUsd).toBe(0);
+
+    // A new tracker (gateway restart) picks up today's spending from the ledger
+    expect(createTracker().getDailyUsage().costUsd).toBeCloseTo(0.06);
+  });
+
+  it('should warn near the session budget and stop the session once over it', () => {
+    createTracker({ session: { maxTokens: 1000 } });
+
+    call('msg-1', 700, 100);
+    call('msg-2', 50, 0);
+    expect(events).toEqual([expect.objectContaining({
+      type: 'budget',
+      scope: 'session',
+      level: 'warning',
+      spent: { costUsd: 0, tokens: 800 },
+    })]);
+
+    call('msg-3', 300, 0);
+    call('msg-4', 300, 0);
+    expect(events[1]).toEqual(expect.objectContaining({ type: 'budget', level: 'exceeded', action: 'stop' }));
+    expect(spawner.stop).toHaveBeenCalledTimes(1);
+    expect(spawner.stop).toHaveBeenCalledWith(sessionId);
+  });
+
+  it('should interrupt every turn that runs past the daily budget and refuse new work', () => {
+    const tracker = createTracker({ daily: { maxCostUsd: 0.1, action: 'interrupt' } });
+
+    call('msg-1', 10, 1);
+    result(0.12, 1);
+    expect(events.map((event) => event.type === 'budget' && event.level)).toEqual([false, 'exceeded']);
+    expect(spawner.interrupt).not.toHaveBeenCalled();
+    expect(tracker.isOverDailyBudget()).toBe(true);
+
+    // The next turn is cut short as soon as it calls the model
+    call('msg-2', 10, 1);
+    call('msg-3', 10, 1);
+    result(0.13, 2);
+    call('msg-4', 10, 1);
+    expect(spawner.interrupt).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for ClaudeCodeWatchdog
+ */
+
+import { EventEmitter } from 'events';
+import { ClaudeCodeWatchdog } from '../../src/runtime/ClaudeCodeWatchdog';
+import { ClaudeCodeProcessSpawner } from '../../src/runtime/ClaudeCodeProcessSpawner';
+import { ClaudeCodeEvent, ClaudeCodeSession } from '../../src/types/runtime';
+
+describe('ClaudeCodeWatchdog', () => {
+  const start = new Date('2026-01-01T10:00:00.000Z');
+  const at = (ms: number) => new Date(start.getTime() + ms);
+
+  let session: ClaudeCodeSession;
+  let spawner: EventEmitter & { getAllSessions: jest.Mock; stop: jest.Mock; interrupt: jest.Mock };
+  let events: ClaudeCodeEvent[];
+
+  const createWatchdog = (config: ConstructorParameters<typeof ClaudeCodeWatchdog>[0]['config']) => {
+    const watchdog = new ClaudeCodeWatchdog({
+      spawner: spawner as unknown as ClaudeCodeProcessSpawner,
+      config,
+      logger: () => undefined,
+    });
+    watchdog.on('idle', (event) => events.push(event));
+    watchdog.on('watchdog', (event) => events.push(event));
+    return watchdog;
+  };
+
+  beforeEach(() => {
+    session = {
+      sessionId: 'cc-test-1',
+      agentId: 'test-agent',
+      pid: 1234,
+      backend: 'pty',
+      workdir: '/tmp/test-workspace',
+      task: 'test',
+      startedAt: start,
+      lastActivity: start,
+      state: 'running',
+      outputBuffer: [],
+    };
+    spawner = Object.assign(new EventEmitter(), {
+      getAllSessions: jest.fn(() => [session]),
+      stop: jest.fn(() => Promise.resolve()),
+      interrupt: jest.fn(),
+    });
+    events = [];
+  });
+
+  it('should mark quiet sessions idle and stop them after the idle timeout', () => {
+    const watchdog = createWatchdog({ idleAfterMs: 1000, idleTimeoutMs: 5000 });
+
+    watchdog.check(at(500));
+    expect(session.state).toBe('running');
+
+    watchdog.check(at(1000));
+    expect(session.state).toBe('idle');
+    expect(events).toEqual([{ type: 'idle', sessionId: 'cc-test-1', idleMs: 1000 }]);
+
+    watchdog.check(at(5000));
+    watchdog.check(at(6000));
+    expect(spawner.stop).toHaveBeenCalledTimes(1);
+    expect(events[1]).toEqual({
+      type: 'watchdog',
+      sessionId: 'cc-test-1',
+      action: 'stop',
+      reason: 'idle-timeout',
+      elapsedMs: 5000,
+    });
+  });
+
+  it('should interrupt sessions over their per-task wall-clock limit', () => {
+    const watchdog = createWatchdog({ maxRuntimeMs: 60000, action: 'interrupt' });
+    session.maxRuntimeMs = 2000;
+    session.lastActivity = at(1900);
+
+    watchdog.check(at(2000));
+    watchdog.check(at(3000));
+
+    expect(spawner.interrupt).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([
+      { type: 'watchdog', sessionId: 'cc-test-1', action: 'interrupt', reason: 'max-runtime', elapsedMs: 2000 },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for ClaudeSessionLocator
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeSessionLocator } from '../../src/runtime/ClaudeSessionLocator';
+
+describe('ClaudeSessionLocator', () => {
+  const existingId = '0b7f3c52-8d1e-4f7a-9c1b-2a3d4e5f6a7b';
+  const newId = '9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a';
+  let configDir: string;
+  let locator: ClaudeSessionLocator;
+  let projectDir: string;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-config-'));
+    locator = new ClaudeSessionLocator({ configDir, pollIntervalMs: 10 });
+    projectDir = locator.projectDir('/tmp/work space');
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.writeFileSync(path.join(projectDir, `${existingId}.jsonl`), '{}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should encode the workdir the way Claude Code does', () => {
+    expect(path.basename(projectDir)).toBe('-tmp-work-space');
+  });
+
+  it('should recognize Claude Code session IDs', () => {
+    expect(ClaudeSessionLocator.isClaudeSessionId(existingId)).toBe(true);
+    expect(ClaudeSessionLocator.isClaudeSessionId('cc-wolverine-123-abc')).toBe(false);
+  });
+
+  it('should find a session file created after the snapshot', async () => {
+    const before = locator.snapshot('/tmp/work space');
+    setTimeout(() => fs.writeFileSync(path.join(projectDir, `${newId}.jsonl`), '{}\n'), 30);
+
+    await expect(locator.waitForSession('/tmp/work space', before, 1000)).resolves.toBe(newId);
+  });
+
+  it('should find an existing session file that was appended to', async () => {
+    const before = locator.snapshot('/tmp/work space');
+    const file = path.join(projectDir, `${existingId}.jsonl`);
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(file, later, later);
+
+    await expect(locator.waitForSession('/tmp/work space', before, 1000)).resolves.toBe(existingId);
+  });
+
+  it('should pass over sessions another process has claimed', async () => {
+    const before = locator.snapshot('/tmp/work space');
+    fs.writeFileSync(path.join(projectDir, `${newId}.jsonl`), '{}\n');
+    const file = path.join(projectDir, `${existingId}.jsonl`);
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(file, later, later);
+
+    const claimed = (id: string) => id === newId;
+    await expect(locator.waitForSession('/tmp/work space', before, 1000, () => false, claimed)).resolves.toBe(existingId);
+  });
+
+  it('should give up after the timeout', async () => {
+    const before = locator.snapshot('/tmp/work space');
+
+    await expect(locator.waitForSession('/tmp/work space', before, 50)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for RestartPolicy
+ */
+
+import { RestartPolicy } from '../../src/runtime/RestartPolicy';
+
+describe('RestartPolicy', () => {
+  it('should never restart by default', () => {
+    const policy = new RestartPolicy();
+
+    expect(policy.appliesTo(true)).toBe(false);
+    expect(policy.shouldRestart(true, 1)).toBe(false);
+  });
+
+  it('should restart only failures in on-failure mode', () => {
+    const policy = new RestartPolicy({ mode: 'on-failure', maxRetries: 2 });
+
+    expect(policy.shouldRestart(true, 1)).toBe(true);
+    expect(policy.shouldRestart(true, 2)).toBe(true);
+    expect(policy.shouldRestart(true, 3)).toBe(false);
+    expect(policy.shouldRestart(false, 1)).toBe(false);
+  });
+
+  it('should restart clean exits too in always mode', () => {
+    const policy = new RestartPolicy({ mode: 'always' });
+
+    expect(policy.shouldRestart(false, 1)).toBe(true);
+    expect(policy.shouldRestart(false, 4)).toBe(false);
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = new RestartPolicy({
+      mode: 'on-failure',
+      backoff: { initialDelayMs: 100, multiplier: 3, maxDelayMs: 1000 },
+    });
+
+    expect([1, 2, 3, 4].map((attempt) => policy.delayFor(attempt))).toEqual([100, 300, 900, 1000]);
+  });
+
+  it('should treat non-zero exits and signals as failures', () => {
+    expect(RestartPolicy.isFailure(0)).toBe(false);
+    expect(RestartPolicy.isFailure(1)).toBe(true);
+    expect(RestartPolicy.isFailure(0, 'SIGKILL')).toBe(true);
+  });
+});
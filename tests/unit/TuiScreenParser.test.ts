@@ -0,0 +1,124 @@
+/**
+ * Unit tests for TuiScreenParser
+ */
+
+import { TuiScreenParser } from '../../src/runtime/TuiScreenParser';
+import { ParsedOutput } from '../../src/runtime/ClaudeCodeCommunicator';
+
+/** Clear the screen and draw the given lines, the way the TUI repaints */
+const frame = (...lines: string[]) => `\x1b[2J\x1b[H${lines.join('\r\n')}`;
+
+const INPUT_BOX = [
+  '╭──────────────────────────────╮',
+  '│ >                            │',
+  '╰──────────────────────────────╯',
+  '  ? for shortcuts',
+];
+
+describe('TuiScreenParser', () => {
+  let parser: TuiScreenParser;
+
+  const feed = async (...chunks: string[]): Promise<ParsedOutput[]> => {
+    const outputs = await Promise.all(chunks.map((chunk) => parser.parse(chunk)));
+    return outputs.flat();
+  };
+
+  beforeEach(() => {
+    parser = new TuiScreenParser({ columns: 80, rows: 20 });
+  });
+
+  afterEach(() => {
+    parser.dispose();
+  });
+
+  it('should follow a turn from the prompt through work to the final answer', async () => {
+    expect(await feed(frame('\x1b[1m✻ Welcome to Claude Code!\x1b[0m', '', ...INPUT_BOX))).toEqual([
+      expect.objectContaining({ type: 'screen', state: 'ready' }),
+    ]);
+
+    const working = await feed(frame(
+      '> Fix the tests',
+      '',
+      '⏺ Bash(npm test)',
+      '  ⎿  Done in 2s',
+      '',
+      '\x1b[33m✶ Thinking… (3s · esc to interrupt)\x1b[0m',
+      ...INPUT_BOX,
+    ));
+    expect(working).toEqual([
+      expect.objectContaining({ type: 'screen', state: 'working', content: '✶ Thinking… (3s · esc to interrupt)' }),
+    ]);
+    expect(parser.screenState).toBe('working');
+
+    // The spinner is redrawn in place; that's not a new state
+    expect(await feed('\x1b[6;1H\x1b[2K✷ Thinking… (4s · esc to interrupt)')).toEqual([]);
+
+    const done = await feed(frame(
+      '> Fix the tests',
+      '',
+      '⏺ Bash(npm test)',
+      '  ⎿  Done in 2s',
+      '',
+      '⏺ All 12 tests pass now. The fixture',
+      '  was missing a field.',
+      '',
+      ...INPUT_BOX,
+    ));
+    expect(done).toEqual([
+      expect.objectContaining({ type: 'screen', state: 'ready' }),
+      { type: 'result', content: 'All 12 tests pass now. The fixture\nwas missing a field.', isComplete: true },
+    ]);
+  });
+
+  it('should recognise a permission dialog and its choices', async () => {
+    await feed(frame(...INPUT_BOX));
+
+    const outputs = await feed(frame(
+      '╭──────────────────────────────────────────────╮',
+      '│ Bash command                                 │',
+      '│   rm -rf build                               │',
+      '│ Do you want to proceed?                      │',
+      '│ ❯ 1. Yes                                     │',
+      "│   2. Yes, and don't ask again for rm commands │",
+      '│   3. No, and tell Claude what to do (esc)    │',
+      '╰──────────────────────────────────────────────╯',
+    ));
+
+    expect(outputs).toEqual([expect.objectContaining({
+      type: 'screen',
+      state: 'permission',
+      options: ['1. Yes', "2. Yes, and don't ask again for rm commands", '3. No, and tell Claude what to do (esc)'],
+      permission: { toolName: 'Bash', input: { command: 'rm -rf build' } },
+    })]);
+    expect(outputs[0].content).toContain('rm -rf build');
+  });
+
+  it('should read a command over several lines in full but only as partial', async () => {
+    await feed(frame(...INPUT_BOX));
+
+    const outputs = await feed(frame(
+      '╭──────────────────────────────────────────────╮',
+      '│ Bash command                                 │',
+      '│   git status &&                              │',
+      '│   rm -rf build                               │',
+      '│ Do you want to proceed?                      │',
+      '│ ❯ 1. Yes                                     │',
+      '│   2. No, and tell Claude what to do (esc)    │',
+      '╰──────────────────────────────────────────────╯',
+    ));
+
+    expect(outputs[0]).toEqual(expect.objectContaining({
+      permission: { toolName: 'Bash', input: { command: 'git status &&\nrm -rf build' }, partial: true },
+    }));
+  });
+
+  it('should not take words in the output for a finished turn', async () => {
+    const outputs = await feed(frame(
+      '⏺ Update(src/index.ts)',
+      '  ⎿  console.log("Done"); // Error: Failed?',
+    ));
+
+    expect(outputs).toEqual([]);
+    expect(parser.screenState).toBe('starting');
+  });
+});
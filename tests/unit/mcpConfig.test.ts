@@ -0,0 +1,36 @@
+/**
+ * Unit tests for MCP config generation
+ */
+
+import { buildMcpConfig, validateMcpServers } from '../../src/runtime/mcpConfig';
+import { ClaudeCodeMcpServer } from '../../src/types/runtime';
+
+describe('mcpConfig', () => {
+  it('should build the --mcp-config document for stdio and HTTP servers', () => {
+    const servers: Record<string, ClaudeCodeMcpServer> = {
+      git: { command: 'git-mcp', args: ['--repo', '.'], env: { GIT_DIR: '.git' } },
+      trello: { type: 'http', url: 'https://trello.example/mcp', headers: { Authorization: 'Bearer token' } },
+      validator: { type: 'stdio', command: 'validate-mcp' },
+    };
+
+    expect(buildMcpConfig(servers)).toEqual({
+      mcpServers: {
+        git: { type: 'stdio', command: 'git-mcp', args: ['--repo', '.'], env: { GIT_DIR: '.git' } },
+        trello: { type: 'http', url: 'https://trello.example/mcp', headers: { Authorization: 'Bearer token' } },
+        validator: { type: 'stdio', command: 'validate-mcp', args: [] },
+      },
+    });
+  });
+
+  it('should reject incomplete or unknown server definitions', () => {
+    expect(() => validateMcpServers({ git: { command: '' } })).toThrow('"git" (stdio) is missing required field: command');
+    expect(() => validateMcpServers({ api: { type: 'sse', url: '' } })).toThrow('"api" (sse) is missing required field: url');
+    expect(() => validateMcpServers({ odd: { type: 'ws', url: 'ws://x' } as any })).toThrow('unsupported type: ws');
+    expect(() => validateMcpServers({ git: { command: 'git-mcp' } })).not.toThrow();
+  });
+
+  it('should explain the record shape to configs that still list server names', () => {
+    expect(() => validateMcpServers(['git', 'trello'] as any))
+      .toThrow('mcpServers is now a record of server definitions keyed by name, not a list of names: replace ["git","trello"]');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the personality compiler
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compilePersonality } from '../../src/runtime/personality';
+import { AgentConfig } from '../../src/types/runtime';
+
+describe('compilePersonality', () => {
+  let agentDir: string;
+  let agent: AgentConfig;
+
+  beforeEach(() => {
+    agentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-'));
+    agent = {
+      id: 'wolverine',
+      name: 'Wolverine',
+      runtime: 'claudeCode',
+      workspace: '/tmp/test-workspace',
+      agentDir,
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(agentDir, { recursive: true, force: true });
+  });
+
+  it('should assemble the files in a fixed order, skipping missing and empty ones', () => {
+    fs.writeFileSync(path.join(agentDir, 'TOOLS.md'), '# TOOLS\nUse git.\n');
+    fs.writeFileSync(path.join(agentDir, 'SOUL.md'), '# SOUL\nBe direct.\n');
+    fs.writeFileSync(path.join(agentDir, 'IDENTITY.md'), '# IDENTITY\nName: Wolverine\n');
+    fs.writeFileSync(path.join(agentDir, 'USER.md'), '   \n');
+
+    const personality = compilePersonality(agent);
+
+    expect(personality.files).toEqual(['IDENTITY.md', 'SOUL.md', 'TOOLS.md']);
+    expect(personality.truncated).toBe(false);
+    expect(personality.prompt).toMatch(/^You are Wolverine, an OpenClaw agent/);
+    expect(personality.prompt.indexOf('# IDENTITY')).toBeLessThan(personality.prompt.indexOf('# SOUL'));
+    expect(personality.prompt.indexOf('# SOUL')).toBeLessThan(personality.prompt.indexOf('# TOOLS'));
+  });
+
+  it('should cap the prompt size', () => {
+    fs.writeFileSync(path.join(agentDir, 'SOUL.md'), 'x'.repeat(5000));
+    agent.claudeCode = { personality: { maxChars: 1000 } };
+
+    const personality = compilePersonality(agent);
+
+    expect(personality.truncated).toBe(true);
+    expect(personality.prompt.length).toBeLessThanOrEqual(1000);
+    expect(personality.prompt).toMatch(/\[Personality truncated to 1000 characters\]$/);
+  });
+
+  it('should return an empty prompt when there are no personality files', () => {
+    expect(compilePersonality(agent)).toEqual({ prompt: '', files: [], truncated: false });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for structured output extraction and validation
+ */
+
+import { buildStructuredPrompt, compileSchema, extractJson } from '../../src/runtime/structuredOutput';
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { enum: ['pass', 'fail'] },
+    failures: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['status', 'failures'],
+  additionalProperties: false,
+};
+
+describe('structuredOutput', () => {
+  it('should find the JSON an answer ends with', () => {
+    expect(extractJson('{"a": 1}')).toEqual({ found: true, value: { a: 1 } });
+    expect(extractJson('Done.\n\n```json\n{"a": 1}\n```\n')).toEqual({ found: true, value: { a: 1 } });
+    expect(extractJson('Draft: {"a": 1}\nFinal: {"a": {"b": "}"}}, that is all')).toEqual({
+      found: true,
+      value: { a: { b: '}' } },
+    });
+    expect(extractJson('Results: [1, 2] and then {not json}')).toEqual({ found: true, value: [1, 2] });
+    expect(extractJson('No JSON here {')).toEqual({ found: false });
+  });
+
+  it('should validate answers and describe what is wrong', () => {
+    const check = compileSchema<{ status: string; failures: string[] }>(SCHEMA);
+
+    expect(check('```json\n{"status": "fail", "failures": ["lint"]}\n```')).toEqual({
+      valid: true,
+      value: { status: 'fail', failures: ['lint'] },
+    });
+    expect(check('{"status": "maybe", "failures": [1], "extra": true}')).toEqual({
+      valid: false,
+      errors: [
+        "(root) must NOT have additional properties 'extra'",
+        '/status must be equal to one of the allowed values ("pass", "fail")',
+        '/failures/0 must be string',
+      ],
+    });
+    expect(check('All good!')).toEqual({ valid: false, errors: ['no JSON value found in the answer'] });
+  });
+
+  it('should reject an invalid schema and put the schema in the prompt', () => {
+    expect(() => compileSchema({ type: 'nonsense' })).toThrow('Invalid JSON schema');
+    expect(buildStructuredPrompt('Run the tests', SCHEMA)).toContain('"required": [\n    "status",\n    "failures"\n  ]');
+  });
+});